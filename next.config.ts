@@ -20,6 +20,8 @@ const nextConfig: NextConfig = {
   },
   // This is required to support PostHog trailing slash API requests
   skipTrailingSlashRedirect: true,
+  // pdfkit reads its font metrics from its own package directory at runtime, so it isn't bundled
+  serverExternalPackages: ["pdfkit"],
 };
 
 export default nextConfig;
@@ -0,0 +1,109 @@
+// scripts/check-pipeline.ts
+// Runs processArticle end-to-end on a saved article page through the fixture provider, so the
+// whole pipeline (extraction, chunking, analysis, validation and caching) is checked offline.
+// Run with `npm run check:pipeline`; exits non-zero if any check fails. After a prompt change,
+// re-record the fixtures with `ANALYSIS_FIXTURE_MODE=record ANALYSIS_FIXTURE_UPSTREAM=anthropic`.
+import assert from 'assert';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { processArticle, type ProcessArticleInput } from '@/lib/pipeline';
+import { readSavedStory } from '@/lib/storyStore';
+import type { PipelineEvent, StoryData } from '@/lib/types';
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+const ARTICLE_URL = 'https://ledger.example.com/2024/05/14/council-road-budget';
+const SECTION_TARGET_WORDS = 80; // Fixed, so FACT_SECTION_TARGET_WORDS can't change the prompts
+
+// Runs one analysis, collecting the streamed event types
+async function analyze(input: ProcessArticleInput): Promise<{ story: StoryData; events: PipelineEvent['type'][] }> {
+    const events: PipelineEvent['type'][] = [];
+    const story = await processArticle(input, event => events.push(event.type));
+    return { story, events };
+}
+
+async function main(): Promise<void> {
+    // Caches and saved stories go to a scratch directory; fixtures are read from the repo
+    const scratch = await fs.mkdtemp(path.join(os.tmpdir(), 'check-pipeline-'));
+    process.env.ANALYSIS_PROVIDER = 'fixture';
+    process.env.ANALYSIS_FIXTURE_DIR = path.join(FIXTURES_DIR, 'analysis');
+    process.env.ANALYSIS_CACHE_DIR = path.join(scratch, 'analysis');
+    process.env.STORY_STORE_DIR = path.join(scratch, 'stories');
+
+    const input: ProcessArticleInput = {
+        articleHtml: await fs.readFile(path.join(FIXTURES_DIR, 'articles', 'city-budget.html'), 'utf8'),
+        articleUrl: ARTICLE_URL,
+        sectionTargetWords: SECTION_TARGET_WORDS,
+    };
+    let fresh: { story: StoryData; events: PipelineEvent['type'][] } | null = null;
+    let cachedHit: StoryData | null = null;
+
+    const checks: Array<[string, () => Promise<void>]> = [
+        ['analyzes the article from the recorded fixture', async () => {
+            fresh = await analyze({ ...input, force: true });
+            const { story, events } = fresh;
+            assert.deepStrictEqual(events.filter(type => type !== 'summary' && type !== 'sections' && type !== 'spice'), ['fetched', 'metadata', 'extracted', 'analyzing', 'done']);
+            assert.strictEqual(story.cached, false);
+            assert.ok(story.title.trim(), 'expected a title');
+            assert.ok(story.summary.trim(), 'expected a summary');
+            assert.strictEqual(story.originalUrl, ARTICLE_URL);
+            assert.deepStrictEqual(story.warnings ?? [], []);
+        }],
+        ['keeps every section verbatim and titled', async () => {
+            assert.ok(fresh, 'the first check did not produce a story');
+            const { factSections } = fresh.story;
+            assert.ok(factSections.length > 1, `expected several sections, got ${factSections.length}`);
+            for (const section of factSections) {
+                assert.ok(section.title.trim(), `section ${section.id} has no title`);
+            }
+            const text = factSections.map(section => section.content).join(' ');
+            assert.ok(text.includes('"We cannot keep patching roads with duct tape," Ortiz said.'), 'a quoted sentence was not kept verbatim');
+        }],
+        ['scores SPICE with a total that matches its dimensions', async () => {
+            assert.ok(fresh, 'the first check did not produce a story');
+            const score = fresh.story.spiceScore;
+            assert.ok(score, 'expected a SPICE score');
+            assert.strictEqual(score.total, score.s + score.p + score.i + score.c + score.e);
+        }],
+        ['serves the same analysis from the cache', async () => {
+            assert.ok(fresh, 'the first check did not produce a story');
+            const { story } = await analyze(input);
+            assert.strictEqual(story.cached, true);
+            assert.deepStrictEqual(story.factSections, fresh.story.factSections);
+            assert.strictEqual(story.summary, fresh.story.summary);
+            cachedHit = story;
+        }],
+        ['saves each returned story unchanged under its permalink id', async () => {
+            assert.ok(fresh && cachedHit, 'the earlier checks did not produce both stories');
+            for (const story of [fresh.story, cachedHit]) {
+                assert.ok(story.id, 'expected a permalink id');
+                // Compared as JSON, the way both reach the browser (keys set to undefined drop out)
+                assert.deepStrictEqual((await readSavedStory(story.id))?.story, JSON.parse(JSON.stringify(story)));
+            }
+            assert.notStrictEqual(cachedHit.id, fresh.story.id);
+        }],
+    ];
+
+    let failures = 0;
+    try {
+        for (const [name, check] of checks) {
+            try {
+                await check();
+                console.log(`ok - ${name}`);
+            } catch (checkError: unknown) {
+                failures++;
+                console.error(`not ok - ${name}:`, checkError instanceof Error ? checkError.message : checkError);
+            }
+        }
+    } finally {
+        await fs.rm(scratch, { recursive: true, force: true });
+    }
+
+    console.log(`${checks.length - failures} of ${checks.length} checks passed.`);
+    if (failures > 0) process.exitCode = 1;
+}
+
+main().catch((error: unknown) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,52 @@
+// src/app/api/compare-articles/route.ts
+import { NextResponse } from 'next/server';
+import { getAnalysisProvider } from '@/lib/analysisProvider';
+import { compareStories } from '@/lib/compareArticles';
+import { PipelineError, toErrorResponse } from '@/lib/errors';
+import { processArticle } from '@/lib/pipeline';
+import type { CompareResponse, StoryData } from '@/lib/types';
+
+// POST function: runs two URLs through the pipeline and compares the results
+export async function POST(req: Request) {
+    try {
+        const body = await req.json();
+        const { articleUrls, sectionTargetWords, model, temperature } = body ?? {};
+        const provider = getAnalysisProvider({ model, temperature });
+
+        if (!Array.isArray(articleUrls) || articleUrls.length !== 2) {
+            return NextResponse.json({ error: 'articleUrls must be an array of exactly two URLs' }, { status: 400 });
+        }
+        const force = body.force === true || new URL(req.url).searchParams.get('force') === 'true';
+        console.log(`Comparing ${articleUrls[0]} with ${articleUrls[1]}.`);
+
+        // Both articles run at once, with claims so each side's cited sources can be compared. The
+        // runs share one controller: a client disconnect or either article failing stops both.
+        const controller = new AbortController();
+        const abortRuns = () => controller.abort(req.signal.reason);
+        if (req.signal.aborted) abortRuns();
+        req.signal.addEventListener('abort', abortRuns, { once: true });
+        try {
+            const [left, right] = await Promise.all(articleUrls.map(async (articleUrl: unknown, index): Promise<StoryData> => {
+                try {
+                    return await processArticle({ articleUrl, sectionTargetWords, model, temperature, force, claims: true, signal: controller.signal });
+                } catch (error: unknown) {
+                    // Stopped because the other article failed or the client left; only the first failure is reported
+                    if (controller.signal.aborted) throw error;
+                    controller.abort();
+                    const { error: message, status, code } = toErrorResponse(error);
+                    throw new PipelineError(`${index === 0 ? 'First' : 'Second'} article: ${message}`, status, code);
+                }
+            }));
+
+            const response: CompareResponse = { left, right, comparison: await compareStories(left, right, provider, controller.signal) };
+            return NextResponse.json(response, { status: 200 });
+        } finally {
+            req.signal.removeEventListener('abort', abortRuns);
+        }
+
+    } catch (error: unknown) {
+        console.error('Critical Error in POST /api/compare-articles:', error);
+        const { status, ...payload } = toErrorResponse(error);
+        return NextResponse.json(payload, { status });
+    }
+}
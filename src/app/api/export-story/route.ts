@@ -0,0 +1,38 @@
+// src/app/api/export-story/route.ts
+import { NextResponse } from 'next/server';
+import { PipelineError, toErrorResponse } from '@/lib/errors';
+import { EXPORT_FORMATS, exportStory, readExportedStory } from '@/lib/exportStory';
+import type { ExportFormat } from '@/lib/types';
+
+// POST function: renders a processed story as Markdown, HTML, PDF or versioned JSON
+export async function POST(req: Request) {
+    try {
+        // JSON only: a form post from another site can't be turned into a page served from this origin
+        const contentType = req.headers.get('content-type') ?? '';
+        if (contentType.split(';')[0].trim().toLowerCase() !== 'application/json') {
+            throw new PipelineError('Content-Type must be application/json', 415, 'UNSUPPORTED_CONTENT_TYPE');
+        }
+        const body = await req.json().catch(() => {
+            throw new PipelineError('Request body must be valid JSON', 400);
+        });
+        const format = body?.format ?? new URL(req.url).searchParams.get('format');
+        if (!EXPORT_FORMATS.includes(format)) {
+            throw new PipelineError(`format must be one of ${EXPORT_FORMATS.join(', ')}`, 400);
+        }
+
+        const file = await exportStory(readExportedStory(body?.story), format as ExportFormat);
+        return new NextResponse(file.body, {
+            status: 200,
+            headers: {
+                'Content-Type': file.contentType,
+                'Content-Disposition': `attachment; filename="${file.filename}"`,
+                'Cache-Control': 'no-store',
+            },
+        });
+
+    } catch (error: unknown) {
+        console.error('Critical Error in POST /api/export-story:', error);
+        const { status, ...payload } = toErrorResponse(error);
+        return NextResponse.json(payload, { status });
+    }
+}
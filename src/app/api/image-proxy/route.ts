@@ -0,0 +1,28 @@
+// src/app/api/image-proxy/route.ts
+import { NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/errors';
+import { getProxiedImage, parseImageRequest } from '@/lib/imageProxy';
+
+// GET /api/image-proxy?url=<image URL>&w=<width>&ref=<article URL>
+export async function GET(req: Request) {
+    const { searchParams } = new URL(req.url);
+
+    try {
+        const image = await getProxiedImage(parseImageRequest(searchParams, req.headers.get('accept')));
+        return new NextResponse(new Uint8Array(image.body), {
+            status: 200,
+            headers: {
+                'Content-Type': image.contentType,
+                'Cache-Control': 'public, max-age=86400, stale-while-revalidate=604800',
+                'Vary': 'Accept',
+                'X-Content-Type-Options': 'nosniff',
+                'Content-Security-Policy': "default-src 'none'; sandbox",
+                'X-Image-Cache': image.cached ? 'HIT' : 'MISS',
+            },
+        });
+    } catch (error: unknown) {
+        console.error(`Error in GET /api/image-proxy for ${searchParams.get('url') || 'unknown'}:`, error);
+        const { status, ...payload } = toErrorResponse(error);
+        return NextResponse.json(payload, { status });
+    }
+}
@@ -0,0 +1,78 @@
+// src/app/api/process-article/stream/route.ts
+import { getAnalysisProvider } from '@/lib/analysisProvider';
+import { toErrorResponse } from '@/lib/errors';
+import { processArticle } from '@/lib/pipeline';
+import type { PipelineEvent } from '@/lib/types';
+
+// Streaming variant of POST /api/process-article. Emits one Server-Sent Event per pipeline
+// stage (`event: <type>` / `data: <json>`), ending with either `done` or `error`.
+export async function POST(req: Request) {
+    let body: { articleUrl?: unknown; articleHtml?: unknown; articleText?: unknown; sectionTargetWords?: unknown; model?: unknown; temperature?: unknown; force?: unknown; claims?: unknown; timeline?: unknown; framing?: unknown } = {};
+    try {
+        body = await req.json();
+    } catch {
+        // Fall through with an empty body; the pipeline reports the missing URL as an error event
+    }
+
+    const encoder = new TextEncoder();
+    // Set once the client disconnects: later events are dropped, since enqueueing on a cancelled
+    // stream throws inside the running pipeline. The pipeline itself is stopped through req.signal.
+    let closed = false;
+    const markClosed = () => { closed = true; };
+    req.signal.addEventListener('abort', markClosed);
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (event: PipelineEvent) => {
+                if (closed) return;
+                try {
+                    controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+                } catch (enqueueError: unknown) {
+                    console.warn('DEBUG: Could not write to the pipeline stream; dropping further events.', enqueueError);
+                    closed = true;
+                }
+            };
+
+            try {
+                getAnalysisProvider();
+                await processArticle({
+                    articleUrl: body.articleUrl,
+                    articleHtml: body.articleHtml,
+                    articleText: body.articleText,
+                    sectionTargetWords: body.sectionTargetWords,
+                    model: body.model,
+                    temperature: body.temperature,
+                    force: body.force === true || new URL(req.url).searchParams.get('force') === 'true',
+                    claims: body.claims === true,
+                    timeline: body.timeline === true,
+                    framing: body.framing === true,
+                    signal: req.signal,
+                }, send);
+            } catch (error: unknown) {
+                if (closed) {
+                    console.log(`DEBUG: Client disconnected from the pipeline stream for URL ${typeof body.articleUrl === 'string' ? body.articleUrl : 'unknown'}.`);
+                } else {
+                    console.error(`Critical Error in POST /api/process-article/stream for URL ${typeof body.articleUrl === 'string' ? body.articleUrl : 'unknown'}:`, error);
+                    send({ type: 'error', ...toErrorResponse(error) });
+                }
+            } finally {
+                req.signal.removeEventListener('abort', markClosed);
+                if (!closed) {
+                    closed = true;
+                    controller.close();
+                }
+            }
+        },
+        cancel() {
+            closed = true;
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream; charset=utf-8',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+        },
+    });
+}
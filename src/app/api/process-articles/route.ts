@@ -0,0 +1,79 @@
+// src/app/api/process-articles/route.ts
+import { NextResponse } from 'next/server';
+import { getAnalysisProvider } from '@/lib/analysisProvider';
+import { mapWithConcurrency, withTimeout } from '@/lib/concurrency';
+import { PipelineError, toErrorResponse } from '@/lib/errors';
+import { processArticle } from '@/lib/pipeline';
+import type { BatchItemResult, BatchResponse } from '@/lib/types';
+
+// Batch limits (overridable per request within these bounds)
+const MAX_BATCH_SIZE = 50;
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 8;
+const DEFAULT_ITEM_TIMEOUT_MS = 60000;
+const MAX_ITEM_TIMEOUT_MS = 180000;
+
+// Helper to clamp an optional numeric request field
+const clampInt = (value: unknown, fallback: number, min: number, max: number): number => {
+    const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+    return Number.isFinite(parsed) ? Math.min(max, Math.max(min, Math.round(parsed))) : fallback;
+};
+
+// POST function: runs the single-article pipeline over a list of URLs
+export async function POST(req: Request) {
+    try {
+        const body = await req.json();
+        const { articleUrls, sectionTargetWords, model, temperature } = body ?? {};
+        // Validates the provider config and any model/temperature override once for the whole batch
+        getAnalysisProvider({ model, temperature });
+
+        if (!Array.isArray(articleUrls) || articleUrls.length === 0) {
+            return NextResponse.json({ error: 'articleUrls must be a non-empty array of URLs' }, { status: 400 });
+        }
+        if (articleUrls.length > MAX_BATCH_SIZE) {
+            return NextResponse.json({ error: `Too many URLs: a batch may contain at most ${MAX_BATCH_SIZE}.` }, { status: 400 });
+        }
+
+        const concurrency = clampInt(body.concurrency, DEFAULT_CONCURRENCY, 1, MAX_CONCURRENCY);
+        const timeoutMs = clampInt(body.timeoutMs, DEFAULT_ITEM_TIMEOUT_MS, 5000, MAX_ITEM_TIMEOUT_MS);
+        const force = body.force === true || new URL(req.url).searchParams.get('force') === 'true';
+        const claims = body.claims === true;
+        const timeline = body.timeline === true;
+        const framing = body.framing === true;
+
+        console.log(`Processing batch of ${articleUrls.length} URLs (concurrency ${concurrency}, timeout ${timeoutMs}ms).`);
+        const startedAt = Date.now();
+
+        const results = await mapWithConcurrency<unknown, BatchItemResult>(articleUrls, concurrency, async (articleUrl, index) => {
+            const url = typeof articleUrl === 'string' ? articleUrl : String(articleUrl ?? '');
+            try {
+                const story = await withTimeout(
+                    timeoutMs,
+                    (signal) => processArticle({ articleUrl, sectionTargetWords, model, temperature, force, claims, timeline, framing, signal }),
+                    () => new PipelineError(`Timed out after ${Math.round(timeoutMs / 1000)}s.`, 504)
+                );
+                return { url, ok: true, story };
+            } catch (error: unknown) {
+                console.error(`Batch item ${index + 1}/${articleUrls.length} failed for URL ${url || 'unknown'}:`, error);
+                const { error: message, status, code } = toErrorResponse(error);
+                return { url, ok: false, error: code ? { message, status, code } : { message, status } };
+            }
+        });
+
+        const succeeded = results.filter(result => result.ok).length;
+        const response: BatchResponse = {
+            results,
+            succeeded,
+            failed: results.length - succeeded,
+            durationMs: Date.now() - startedAt,
+        };
+        console.log(`Batch finished: ${response.succeeded} succeeded, ${response.failed} failed in ${response.durationMs}ms.`);
+
+        return NextResponse.json(response, { status: 200 });
+
+    } catch (error: unknown) {
+        console.error('Critical Error in POST /api/process-articles:', error);
+        const { status, ...payload } = toErrorResponse(error);
+        return NextResponse.json(payload, { status });
+    }
+}
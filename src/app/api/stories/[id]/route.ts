@@ -0,0 +1,24 @@
+// src/app/api/stories/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { toErrorResponse } from '@/lib/errors';
+import { allowStoryImageHosts } from '@/lib/imageProxy';
+import { readSavedStory } from '@/lib/storyStore';
+
+// GET function: a saved story by its permalink id
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    try {
+        const saved = await readSavedStory(id);
+        if (!saved) {
+            return NextResponse.json({ error: 'Story not found. It may have been analyzed on another server.' }, { status: 404 });
+        }
+        // The image hosts are normally recorded when the story is analyzed; this covers a cleared hosts directory
+        await allowStoryImageHosts(saved.story);
+        return NextResponse.json(saved.story, { status: 200 });
+
+    } catch (error: unknown) {
+        console.error(`Critical Error in GET /api/stories/${id}:`, error);
+        const { status, ...payload } = toErrorResponse(error);
+        return NextResponse.json(payload, { status });
+    }
+}
@@ -1,40 +1,56 @@
 "use client"
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useParams } from 'next/navigation';
 import { posthog } from '@/lib/posthog';
+import { consumePipelineStream } from '@/lib/pipelineStream';
+import { proxiedImageUrl } from '@/lib/imageProxyUrl';
+import { formatPublicationDate, wasUpdated } from '@/lib/publicationDates';
+import { buildMentionPattern, ENTITY_TYPES } from '@/lib/entities';
+import { SPICE_RUBRIC } from '@/lib/spiceRubric';
+import type { ArticleFraming, ArticleImage, ExportFormat, ArticleMetadata, Claim, ClaimType, ComparedFact, CompareResponse, DateMethod, Entity, EntityType, FactSection, InputMode, LoadedPhrase, MetadataSource, PipelineEvent, PublicationDate, PublicationField, PipelineStage, Quote, Sentiment, SpiceDimension, SpiceScoreData, StoryData, TextMetrics, TimelineEvent, Tone } from '@/lib/types';
+
+// --- Input Modes (URL, or pasted HTML/text for sites that block the fetcher) ---
+// 'compare' analyzes two URLs side by side (see CompareView)
+type FormMode = InputMode | 'compare';
+const INPUT_MODES: Array<{ mode: FormMode; label: string }> = [
+    { mode: 'url', label: 'Article URL' },
+    { mode: 'html', label: 'Paste HTML' },
+    { mode: 'text', label: 'Paste Text' },
+    { mode: 'compare', label: 'Compare Two' },
+];
+
+// --- Pipeline Progress Steps (in the order the stream reports them) ---
+const PIPELINE_STEPS: Array<{ stage: PipelineStage; label: string }> = [
+    { stage: 'fetched', label: 'Fetching article' },
+    { stage: 'metadata', label: 'Reading story details' },
+    { stage: 'extracted', label: 'Extracting article text' },
+    { stage: 'analyzing', label: 'Sending to analysis service' },
+    { stage: 'summary', label: 'Writing summary' },
+    { stage: 'sections', label: 'Titling sections' },
+    { stage: 'spice', label: 'Scoring engagement (SPICE)' },
+];
+
+// --- Publication Metadata Sources (shown as tooltips on the Story Details fields) ---
+const METADATA_SOURCE_LABELS: Record<MetadataSource, string> = {
+    'json-ld': 'From the page\'s JSON-LD (schema.org)',
+    microdata: 'From the page\'s Microdata (schema.org)',
+    meta: 'From the page\'s meta tags',
+    readability: 'From the article byline',
+};
 
-// --- Interfaces ---
-interface FactSection {
-    id: string;
-    title: string;
-    content: string;
-}
-
-// Interface for SPICE score data received from backend
-interface SpiceScoreData {
-    s: number;
-    p: number;
-    i: number;
-    c: number;
-    e: number;
-    total: number;
-}
-
-interface StoryData {
-    title: string;
-    source: string;
-    author?: string | null;
-    date: string;
-    summary: string;
-    highlights: string[];
-    factSections: FactSection[];
-    imageUrl?: string | null;
-    imageUrls?: string[];
-    originalUrl: string;
-    spiceScore: SpiceScoreData | null;
-    similarityScore: number;
-}
+// How a date was found, for its tooltip
+const DATE_METHOD_LABELS: Record<DateMethod, string> = {
+    'json-ld': 'the page\'s JSON-LD (schema.org)',
+    microdata: 'the page\'s Microdata (schema.org)',
+    meta: 'the page\'s meta tags',
+    'time-element': 'a date on the page',
+    url: 'the article URL',
+    model: 'the article text',
+};
+const describeDate = (date: PublicationDate): string =>
+    `From ${DATE_METHOD_LABELS[date.method]} ("${date.raw}"); ${Math.round(date.confidence * 100)}% confidence`;
 
 // --- Animation Variants ---
 const containerVariants = {
@@ -105,32 +121,405 @@ const HighlightsSummaryComponent: React.FC<HighlightsSummaryProps> = ({ story, i
     );
 };
 
-interface FactSectionDisplayProps { section: FactSection; isDarkMode: boolean; }
-const FactSectionDisplay: React.FC<FactSectionDisplayProps> = ({ section, isDarkMode }) => (
+// --- Helper: Section text with an entity's mentions marked ---
+interface HighlightedTextProps { content: string; pattern: RegExp; isDarkMode: boolean; }
+const HighlightedText: React.FC<HighlightedTextProps> = ({ content, pattern, isDarkMode }) => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    for (const match of content.matchAll(pattern)) {
+        if (match.index > position) parts.push(content.slice(position, match.index));
+        parts.push(<mark key={match.index} className={`rounded-sm px-0.5 ${isDarkMode ? 'bg-amber-500/30 text-amber-100' : 'bg-amber-200 text-gray-900'}`}>{match[0]}</mark>);
+        position = match.index + match[0].length;
+    }
+    if (position < content.length) parts.push(content.slice(position));
+    return <>{parts}</>;
+};
+
+// --- Helper: Section text with its loaded phrases marked (framing pass) ---
+interface LoadedLanguageTextProps { content: string; phrases: LoadedPhrase[]; isDarkMode: boolean; }
+const LoadedLanguageText: React.FC<LoadedLanguageTextProps> = ({ content, phrases, isDarkMode }) => {
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    for (const phrase of phrases) {
+        if (phrase.offset < position) continue;
+        if (phrase.offset > position) parts.push(content.slice(position, phrase.offset));
+        parts.push(
+            <mark key={phrase.offset} title={phrase.reason ? `Loaded language: ${phrase.reason}` : 'Loaded language'} className={`bg-transparent underline decoration-wavy decoration-2 underline-offset-4 ${isDarkMode ? 'text-inherit decoration-orange-400' : 'text-inherit decoration-orange-500'}`}>
+                {content.slice(phrase.offset, phrase.offset + phrase.length)}
+            </mark>
+        );
+        position = phrase.offset + phrase.length;
+    }
+    if (position < content.length) parts.push(content.slice(position));
+    return <>{parts}</>;
+};
+
+// Gutter colors and labels for the framing pass
+const SENTIMENT_STYLES: Record<Sentiment, { label: string; gutter: string }> = {
+    positive: { label: 'Positive', gutter: 'bg-green-500' },
+    negative: { label: 'Negative', gutter: 'bg-red-500' },
+    mixed: { label: 'Mixed', gutter: 'bg-amber-500' },
+    neutral: { label: 'Neutral', gutter: 'bg-slate-400' },
+};
+const TONE_LABELS: Record<Tone, string> = {
+    neutral: 'Neutral tone',
+    opinion: 'Opinion',
+    advocacy: 'Advocacy',
+};
+
+const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+    person: 'People',
+    organization: 'Organizations',
+    place: 'Places',
+    date: 'Dates',
+};
+
+// --- Component: Entity browser (people, organizations, places, dates); choosing one filters the sections ---
+interface EntityBrowserProps {
+    entities: Entity[];
+    selectedEntityId: string | null;
+    isDarkMode: boolean;
+    onSelect: (entity: Entity) => void;
+}
+const EntityBrowser: React.FC<EntityBrowserProps> = ({ entities, selectedEntityId, isDarkMode, onSelect }) => {
+    const [typeFilter, setTypeFilter] = useState<EntityType | 'all'>('all');
+    if (entities.length === 0) return null;
+    const presentTypes = ENTITY_TYPES.filter(type => entities.some(entity => entity.type === type));
+    const shown = typeFilter === 'all' ? entities : entities.filter(entity => entity.type === typeFilter);
+    const filterClass = (active: boolean) => `px-2 py-0.5 rounded text-[11px] font-medium transition-colors ${active
+        ? (isDarkMode ? 'bg-teal-600 text-white' : 'bg-teal-700 text-white')
+        : (isDarkMode ? 'text-slate-300 hover:bg-slate-600/70' : 'text-gray-600 hover:bg-gray-200')}`;
+
+    return (
+        <div className="mt-6">
+            <h2 className={`text-xs font-semibold mb-2 uppercase tracking-wider ${isDarkMode ? 'text-teal-400' : 'text-teal-600'}`}>
+                People, Places &amp; More
+            </h2>
+            <div className="flex flex-wrap gap-1 mb-2">
+                <button type="button" onClick={() => setTypeFilter('all')} className={filterClass(typeFilter === 'all')}>All</button>
+                {presentTypes.map(type => (
+                    <button key={type} type="button" onClick={() => setTypeFilter(type)} className={filterClass(typeFilter === type)}>{ENTITY_TYPE_LABELS[type]}</button>
+                ))}
+            </div>
+            <ul className="flex flex-wrap gap-1.5 max-h-[30vh] overflow-y-auto">
+                {shown.map(entity => (
+                    <li key={entity.id}>
+                        <button
+                            type="button"
+                            onClick={() => onSelect(entity)}
+                            aria-pressed={selectedEntityId === entity.id}
+                            title={[entity.name, ...entity.aliases].join(' / ') + ` — ${entity.mentionCount} mention${entity.mentionCount === 1 ? '' : 's'} in ${entity.mentions.length} section${entity.mentions.length === 1 ? '' : 's'}`}
+                            className={`px-2 py-1 rounded-full text-xs border transition-colors ${selectedEntityId === entity.id
+                                ? (isDarkMode ? 'bg-amber-500/30 border-amber-400 text-amber-100' : 'bg-amber-100 border-amber-400 text-amber-900')
+                                : (isDarkMode ? 'bg-slate-700 border-slate-600 text-slate-300 hover:bg-slate-600' : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-100')}`}
+                        >
+                            {entity.name} <span className="opacity-60">{entity.mentionCount}</span>
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+type ReadMode = 'summary' | 'detailed' | 'claims';
+const READ_MODES: ReadMode[] = ['summary', 'detailed', 'claims'];
+
+// A saved story's permalink, with the read mode and section when they aren't the defaults
+const storyPermalink = (id: string, readMode: ReadMode, sectionId: string | null): string => {
+    const query = new URLSearchParams();
+    if (readMode !== 'summary') query.set('view', readMode);
+    if (sectionId) query.set('section', sectionId);
+    const search = query.toString();
+    return `/story/${id}${search ? `?${search}` : ''}`;
+};
+
+const CLAIM_TYPE_LABELS: Record<ClaimType, string> = {
+    numeric: 'Number',
+    statistic: 'Statistic',
+    attribution: 'Attribution',
+    causal: 'Causal',
+};
+
+// --- Component: Claims read mode (checkable claims with their source sentences, for fact-checkers) ---
+interface ClaimsViewProps {
+    claims: Claim[] | null | undefined;
+    sections: FactSection[];
+    activeSectionId: string | null; // Set from the section menu; limits the list to that section
+    isDarkMode: boolean;
+    onShowSection: (sectionId: string) => void;
+    onClearSection: () => void;
+}
+const ClaimsView: React.FC<ClaimsViewProps> = ({ claims, sections, activeSectionId, isDarkMode, onShowSection, onClearSection }) => {
+    const [typeFilter, setTypeFilter] = useState<ClaimType | 'all'>('all');
+    const [unsourcedOnly, setUnsourcedOnly] = useState<boolean>(false);
+    const mutedText = isDarkMode ? 'text-slate-400' : 'text-gray-500';
+
+    if (!claims) {
+        return (
+            <div className={`text-center text-sm p-6 rounded-lg ${mutedText}`}>
+                {claims === null
+                    ? 'Claims could not be extracted from this story. Re-analyze it to try again.'
+                    : 'Claims were not extracted for this story. Re-analyze it with "Extract checkable claims" ticked.'}
+            </div>
+        );
+    }
+
+    const sectionTitles = new Map(sections.map(section => [section.id, section.title]));
+    const unsourcedCount = claims.filter(claim => !claim.sourceCited).length;
+    const shown = claims.filter(claim =>
+        (typeFilter === 'all' || claim.type === typeFilter)
+        && (!unsourcedOnly || !claim.sourceCited)
+        && (!activeSectionId || claim.sectionId === activeSectionId)
+    );
+    const filterClass = (active: boolean) => `px-2 py-0.5 rounded text-xs font-medium transition-colors ${active
+        ? (isDarkMode ? 'bg-teal-600 text-white' : 'bg-teal-700 text-white')
+        : (isDarkMode ? 'text-slate-300 hover:bg-slate-600/70' : 'text-gray-600 hover:bg-gray-200')}`;
+
+    return (
+        <div className="space-y-4">
+            <div className={`flex flex-wrap items-center justify-between gap-2 text-xs ${mutedText}`}>
+                <span>{claims.length} checkable claim{claims.length === 1 ? '' : 's'}; {unsourcedCount} without a cited source</span>
+                <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="checkbox" checked={unsourcedOnly} onChange={(event) => setUnsourcedOnly(event.target.checked)} className="accent-teal-600" />
+                    Unsourced only
+                </label>
+            </div>
+            <div className="flex flex-wrap gap-1">
+                <button type="button" onClick={() => setTypeFilter('all')} className={filterClass(typeFilter === 'all')}>All</button>
+                {(Object.keys(CLAIM_TYPE_LABELS) as ClaimType[]).map(type => (
+                    <button key={type} type="button" onClick={() => setTypeFilter(type)} className={filterClass(typeFilter === type)}>{CLAIM_TYPE_LABELS[type]}</button>
+                ))}
+            </div>
+            {activeSectionId && (
+                <div className={`flex items-center justify-between gap-2 text-xs rounded-md px-3 py-2 ${isDarkMode ? 'bg-slate-700/60 text-slate-300' : 'bg-gray-100 text-gray-700'}`}>
+                    <span>Claims in <span className="font-semibold">{sectionTitles.get(activeSectionId) ?? 'this section'}</span></span>
+                    <button type="button" onClick={onClearSection} className="underline underline-offset-2">Show all</button>
+                </div>
+            )}
+            {shown.length === 0 && (
+                <p className={`text-center text-sm p-6 ${mutedText}`}>No claims match these filters.</p>
+            )}
+            <ol className="space-y-3">
+                {shown.map(claim => (
+                    <motion.li
+                        key={`${claim.sectionId}-${claims.indexOf(claim)}`}
+                        variants={itemVariants}
+                        initial="hidden"
+                        animate="visible"
+                        className={`rounded-lg p-4 border ${isDarkMode ? 'bg-slate-700 border-slate-600' : 'bg-white border-gray-200'}`}
+                    >
+                        <div className="flex items-start justify-between gap-3">
+                            <p className={`text-sm font-medium ${isDarkMode ? 'text-slate-100' : 'text-gray-900'}`}>
+                                <span className={`mr-2 ${mutedText}`}>{claims.indexOf(claim) + 1}.</span>{claim.claim}
+                            </p>
+                            <span className={`shrink-0 px-2 py-0.5 rounded-full text-[11px] font-semibold ${isDarkMode ? 'bg-teal-900/60 text-teal-300' : 'bg-teal-50 text-teal-700'}`}>
+                                {CLAIM_TYPE_LABELS[claim.type]}
+                            </span>
+                        </div>
+                        <blockquote className={`mt-2 pl-3 border-l-2 text-sm italic leading-relaxed whitespace-pre-line ${isDarkMode ? 'border-slate-500 text-slate-300' : 'border-gray-300 text-gray-600'}`}>
+                            {claim.sentence}
+                        </blockquote>
+                        <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-xs">
+                            {claim.sourceCited ? (
+                                <span className={isDarkMode ? 'text-green-400' : 'text-green-700'}>Source cited{claim.citedSource ? `: ${claim.citedSource}` : ''}</span>
+                            ) : (
+                                <span className={isDarkMode ? 'text-amber-300' : 'text-amber-700'}>No source cited</span>
+                            )}
+                            <button type="button" onClick={() => onShowSection(claim.sectionId)} className={`underline underline-offset-2 ${mutedText}`}>
+                                In: {sectionTitles.get(claim.sectionId) ?? 'section'}
+                            </button>
+                        </div>
+                    </motion.li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+// --- Component: Quotes with their speakers ("who said what"); each jumps to its section ---
+interface QuotesPanelProps {
+    quotes: Quote[];
+    sections: FactSection[];
+    isDarkMode: boolean;
+    onSelect: (sectionId: string) => void;
+}
+const QuotesPanel: React.FC<QuotesPanelProps> = ({ quotes, sections, isDarkMode, onSelect }) => {
+    if (quotes.length === 0) return null;
+    const sectionTitles = new Map(sections.map(section => [section.id, section.title]));
+    return (
+        <div className="mt-6">
+            <h2 className={`text-xs font-semibold mb-3 uppercase tracking-wider ${isDarkMode ? 'text-teal-400' : 'text-teal-600'}`}>
+                Who Said What
+            </h2>
+            <ul className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+                {quotes.map((quote, index) => (
+                    <motion.li key={`${quote.sectionId}-${index}`} variants={sidebarItemVariants}>
+                        <button
+                            type="button"
+                            onClick={() => onSelect(quote.sectionId)}
+                            title={`Go to "${sectionTitles.get(quote.sectionId) ?? 'section'}"`}
+                            className={`w-full text-left rounded-md p-3 text-xs transition-colors border-l-2 ${isDarkMode ? 'bg-slate-700/60 border-teal-500 hover:bg-slate-600/70' : 'bg-gray-50 border-teal-600 hover:bg-gray-100'}`}
+                        >
+                            <p className={`italic leading-relaxed ${isDarkMode ? 'text-slate-200' : 'text-gray-800'}`}>&ldquo;{quote.text}&rdquo;</p>
+                            <p className={`mt-1.5 ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`}>
+                                <span className="font-medium">{quote.speaker ?? 'Unattributed'}</span>
+                                {quote.role && <>, {quote.role}</>}
+                            </p>
+                        </button>
+                    </motion.li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+// A timeline date at the precision it has: "2019", "March 2019" or "March 5, 2019"
+const formatTimelineDate = (date: string): string => {
+    const [year, month, day] = date.split('-').map(Number);
+    if (!month) return String(year);
+    return new Date(Date.UTC(year, month - 1, day || 1)).toLocaleDateString(undefined, day
+        ? { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' }
+        : { year: 'numeric', month: 'long', timeZone: 'UTC' });
+};
+
+// --- Component: Timeline of dated events, in date order; each jumps to its section ---
+interface TimelinePanelProps {
+    timeline: TimelineEvent[] | null | undefined;
+    sections: FactSection[];
+    isDarkMode: boolean;
+    onSelect: (sectionId: string) => void;
+}
+const TimelinePanel: React.FC<TimelinePanelProps> = ({ timeline, sections, isDarkMode, onSelect }) => {
+    if (!timeline || timeline.length === 0) return null;
+    const sectionTitles = new Map(sections.map(section => [section.id, section.title]));
+    return (
+        <div className="mt-6">
+            <h2 className={`text-xs font-semibold mb-3 uppercase tracking-wider ${isDarkMode ? 'text-teal-400' : 'text-teal-600'}`}>
+                Timeline
+            </h2>
+            <ol className={`relative ml-1.5 border-l max-h-[50vh] overflow-y-auto ${isDarkMode ? 'border-slate-600' : 'border-gray-300'}`}>
+                {timeline.map((event, index) => (
+                    <motion.li key={`${event.sectionId}-${index}`} variants={sidebarItemVariants} className="relative pl-4 pb-3 last:pb-0">
+                        <span className={`absolute -left-[5px] top-1.5 h-2.5 w-2.5 rounded-full ${isDarkMode ? 'bg-teal-500' : 'bg-teal-600'}`} />
+                        <button
+                            type="button"
+                            onClick={() => onSelect(event.sectionId)}
+                            title={`"${event.sentence}" (go to "${sectionTitles.get(event.sectionId) ?? 'section'}")`}
+                            className={`w-full text-left rounded-md px-2 py-1 text-xs transition-colors ${isDarkMode ? 'hover:bg-slate-700/70' : 'hover:bg-gray-100'}`}
+                        >
+                            <p className={`font-semibold ${isDarkMode ? 'text-slate-200' : 'text-gray-800'}`}>
+                                {formatTimelineDate(event.start)}{event.end && <> &ndash; {formatTimelineDate(event.end)}</>}
+                                {event.relative && (
+                                    <span className={`ml-1.5 font-normal ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`} title="Worked out from the publication date">({event.dateText})</span>
+                                )}
+                            </p>
+                            <p className={`mt-0.5 leading-relaxed ${isDarkMode ? 'text-slate-300' : 'text-gray-600'}`}>{event.description}</p>
+                        </button>
+                    </motion.li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+// Reading time label: seconds for short sections, otherwise whole minutes
+const formatReadingTime = (seconds: number): string =>
+    seconds < 60 ? `${Math.max(5, Math.round(seconds / 5) * 5)} sec read` : `${Math.round(seconds / 60)} min read`;
+
+interface FactSectionDisplayProps { section: FactSection; isDarkMode: boolean; highlightPattern?: RegExp | null; readingTimeSeconds?: number; showFraming?: boolean; }
+const FactSectionDisplay: React.FC<FactSectionDisplayProps> = ({ section, isDarkMode, highlightPattern = null, readingTimeSeconds, showFraming = false }) => {
+    const framing = showFraming ? section.framing : undefined;
+    return (
     <motion.div
         id={section.id}
         key={section.id}
         variants={itemVariants}
         layout
-        className={`rounded-lg p-5 shadow-sm ${isDarkMode ? 'bg-slate-700 border-slate-600' : 'bg-white border-gray-200'} border`}
+        className={`relative rounded-lg p-5 shadow-sm ${framing ? 'pl-7' : ''} ${isDarkMode ? 'bg-slate-700 border-slate-600' : 'bg-white border-gray-200'} border`}
      >
-        <h2 className={`text-xl font-semibold mb-3 ${isDarkMode ? 'text-teal-400' : 'text-teal-700'}`}>
-            {section.title}
-        </h2>
-        <p className={`text-sm leading-relaxed ${isDarkMode ? 'text-slate-300' : 'text-gray-700'}`}>
-            {section.content}
+        {framing && (
+            <span
+                title={`${SENTIMENT_STYLES[framing.sentiment].label} sentiment · ${TONE_LABELS[framing.tone]} · ${framing.kind === 'fact' ? 'Reported fact' : 'Commentary'}`}
+                className={`absolute left-0 top-0 bottom-0 w-2 rounded-l-lg ${SENTIMENT_STYLES[framing.sentiment].gutter}`}
+            />
+        )}
+        <div className="flex items-baseline justify-between gap-3 mb-3">
+            <h2 className={`text-xl font-semibold ${isDarkMode ? 'text-teal-400' : 'text-teal-700'}`}>
+                {section.title}
+            </h2>
+            <span className="shrink-0 flex items-baseline gap-3">
+                {framing && (
+                    <span className={`text-xs ${isDarkMode ? 'text-slate-300' : 'text-gray-600'}`}>
+                        {framing.kind === 'commentary' ? 'Commentary' : 'Reported fact'}{framing.tone !== 'neutral' ? ` · ${TONE_LABELS[framing.tone]}` : ''}
+                    </span>
+                )}
+                {readingTimeSeconds !== undefined && (
+                    <span className={`text-xs ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`}>{formatReadingTime(readingTimeSeconds)}</span>
+                )}
+            </span>
+        </div>
+        <p className={`text-sm leading-relaxed whitespace-pre-line ${isDarkMode ? 'text-slate-300' : 'text-gray-700'}`}>
+            {highlightPattern ? <HighlightedText content={section.content} pattern={highlightPattern} isDarkMode={isDarkMode} />
+                : framing && framing.loadedLanguage.length > 0 ? <LoadedLanguageText content={section.content} phrases={framing.loadedLanguage} isDarkMode={isDarkMode} />
+                : section.content}
         </p>
     </motion.div>
-);
+    );
+};
 
-// --- Helper: Component for individual additional image with error handling & click ---
-interface AdditionalImageProps {
+// --- Helper: <img> loaded through the image proxy, falling back to the original URL ---
+interface ProxiedImgProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src' | 'onError'> {
     src: string;
     alt: string;
+    proxyWidth?: number;
+    referer?: string; // The article URL
+    onError?: (event: React.SyntheticEvent<HTMLImageElement>) => void; // Only once the original URL has failed too
+}
+const ProxiedImg: React.FC<ProxiedImgProps> = ({ src, alt, proxyWidth, referer, onError, ...imgProps }) => {
+    const [useProxy, setUseProxy] = useState(true);
+    return (
+        <img
+            {...imgProps}
+            src={useProxy ? proxiedImageUrl(src, { width: proxyWidth, referer }) : src}
+            alt={alt}
+            onError={(event) => {
+                if (useProxy) {
+                    console.warn("<<< IMAGE PROXY >>> Proxy could not load image, trying it directly:", src);
+                    setUseProxy(false);
+                } else {
+                    onError?.(event);
+                }
+            }}
+        />
+    );
+};
+
+// --- Helper: Caption and credit line under an image ---
+interface ImageCaptionProps {
+    image: ArticleImage;
+    className: string;
+    clamp?: boolean;
+}
+const ImageCaption: React.FC<ImageCaptionProps> = ({ image, className, clamp = false }) => {
+    if (!image.caption && !image.credit) return null;
+    return (
+        <p className={`${className} ${clamp ? 'line-clamp-2' : ''}`} title={clamp ? [image.caption, image.credit].filter(Boolean).join(' — ') : undefined}>
+            {image.caption}
+            {image.credit && <span className="italic opacity-80">{image.caption ? ' ' : ''}Credit: {image.credit}</span>}
+        </p>
+    );
+};
+
+// --- Helper: Component for individual additional image with error handling & click ---
+interface AdditionalImageProps {
+    image: ArticleImage;
+    alt: string; // Used when the image has no alt text of its own
+    referer?: string;
     isDarkMode: boolean;
     onClick: () => void; // Add onClick handler prop
 }
-const AdditionalImage: React.FC<AdditionalImageProps> = ({ src, alt, isDarkMode, onClick }) => {
+const AdditionalImage: React.FC<AdditionalImageProps> = ({ image, alt, referer, isDarkMode, onClick }) => {
     const [hasError, setHasError] = useState(false);
 
     if (hasError) {
@@ -145,34 +534,45 @@ const AdditionalImage: React.FC<AdditionalImageProps> = ({ src, alt, isDarkMode,
     }
 
     return (
-        <motion.button
-            type="button"
-            onClick={onClick}
-            className={`w-full h-auto block rounded shadow-sm border overflow-hidden focus:outline-none focus:ring-2 focus:ring-offset-2 ${isDarkMode ? 'border-slate-600 focus:ring-teal-500 focus:ring-offset-slate-800' : 'border-gray-300 focus:ring-teal-600 focus:ring-offset-white'}`}
-            whileHover={{ scale: 1.03 }}
-            whileTap={{ scale: 0.98 }}
-            title="Click to enlarge"
-        >
-            <img
-                src={src}
-                alt={alt}
-                className={`w-full h-auto object-cover aspect-square block`}
-                loading="lazy"
-                onError={() => {
-                    console.warn("<<< Additional IMAGE ERROR >>> Image failed:", src);
-                    setHasError(true);
-                }}
-            />
-        </motion.button>
+        <figure>
+            <motion.button
+                type="button"
+                onClick={onClick}
+                className={`w-full h-auto block rounded shadow-sm border overflow-hidden focus:outline-none focus:ring-2 focus:ring-offset-2 ${isDarkMode ? 'border-slate-600 focus:ring-teal-500 focus:ring-offset-slate-800' : 'border-gray-300 focus:ring-teal-600 focus:ring-offset-white'}`}
+                whileHover={{ scale: 1.03 }}
+                whileTap={{ scale: 0.98 }}
+                title="Click to enlarge"
+            >
+                <ProxiedImg
+                    src={image.url}
+                    alt={image.alt ?? alt}
+                    proxyWidth={384}
+                    referer={referer}
+                    className={`w-full h-auto object-cover aspect-square block`}
+                    loading="lazy"
+                    onError={() => {
+                        console.warn("<<< Additional IMAGE ERROR >>> Image failed:", image.url);
+                        setHasError(true);
+                    }}
+                />
+            </motion.button>
+            <figcaption>
+                <ImageCaption image={image} clamp className={`mt-1 text-[11px] leading-snug ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`} />
+            </figcaption>
+        </figure>
     );
 };
 
 // --- Component: Image Overlay ---
 interface ImageOverlayProps {
-  imageUrl: string;
+  image: ArticleImage;
+  referer?: string;
   onClose: () => void;
 }
-const ImageOverlay: React.FC<ImageOverlayProps> = ({ imageUrl, onClose }) => {
+const ImageOverlay: React.FC<ImageOverlayProps> = ({ image, referer, onClose }) => {
+  // The highest-resolution candidate, falling back to the URL the page loads if it fails
+  const [src, setSrc] = useState(image.bestUrl);
+
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.key === 'Escape') {
@@ -198,11 +598,16 @@ const ImageOverlay: React.FC<ImageOverlayProps> = ({ imageUrl, onClose }) => {
         variants={enlargedImageVariants}
         onClick={(e) => e.stopPropagation()}
       >
-        <img
-          src={imageUrl}
-          alt="Enlarged view"
-          className="block max-w-full max-h-[90vh] object-contain rounded-lg shadow-2xl"
+        <ProxiedImg
+          key={src}
+          src={src}
+          alt={image.alt ?? 'Enlarged view'}
+          proxyWidth={1920}
+          referer={referer}
+          className="block max-w-full max-h-[80vh] object-contain rounded-lg shadow-2xl"
+          onError={() => { if (src !== image.url) setSrc(image.url); }}
         />
+        <ImageCaption image={image} className="mt-2 max-w-3xl text-sm text-center text-slate-200" />
          <button
             type="button"
             onClick={onClose}
@@ -224,73 +629,500 @@ interface SpiceScoreDisplayProps {
     isDarkMode: boolean;
 }
 const SpiceScoreDisplay: React.FC<SpiceScoreDisplayProps> = ({ scoreData, isDarkMode }) => {
-    // Calculate percentage for potential visual representation (optional)
-    // const percentage = (scoreData.total / 25) * 100;
+    // Dimension whose justification and rubric criteria are expanded
+    const [openDimension, setOpenDimension] = useState<SpiceDimension | null>(null);
 
-    // Simple Text display
     return (
         <div className="mt-3 pt-3 border-t border-dashed border-gray-300 dark:border-slate-600">
             <h4 className={`text-xs font-semibold mb-1.5 uppercase tracking-wider ${isDarkMode ? 'text-teal-400' : 'text-teal-600'}`}>
                 Engagement Score (SPICE)
             </h4>
-            <div className="flex items-center justify-between">
-                 <p className={`text-sm font-medium ${isDarkMode ? 'text-slate-200' : 'text-gray-700'}`}>
-                     Total: <span className="text-lg font-bold">{scoreData.total}</span> / 25
-                 </p>
-                 {/* Optional: Detailed breakdown on hover/tooltip? */}
-                 <div className={`text-xs grid grid-cols-5 gap-1 text-center ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`}>
-                    <span title={`Scannability: ${scoreData.s}/5`}>S:{scoreData.s}</span>
-                    <span title={`Personalization: ${scoreData.p}/5`}>P:{scoreData.p}</span>
-                    <span title={`Interactivity: ${scoreData.i}/5`}>I:{scoreData.i}</span>
-                    <span title={`Curation: ${scoreData.c}/5`}>C:{scoreData.c}</span>
-                    <span title={`Emotion: ${scoreData.e}/5`}>E:{scoreData.e}</span>
-                 </div>
-            </div>
+            <p className={`text-sm font-medium mb-2 ${isDarkMode ? 'text-slate-200' : 'text-gray-700'}`}>
+                Total: <span className="text-lg font-bold">{scoreData.total}</span> / 25
+            </p>
+            <ul className="space-y-1">
+                {SPICE_RUBRIC.map(dimension => {
+                    const score = scoreData[dimension.key];
+                    const isOpen = openDimension === dimension.key;
+                    const justification = scoreData.justifications?.[dimension.name];
+                    const criteriaMet = scoreData.criteriaMet?.[dimension.name];
+                    return (
+                        <li key={dimension.key}>
+                            <button
+                                type="button"
+                                onClick={() => setOpenDimension(isOpen ? null : dimension.key)}
+                                aria-expanded={isOpen}
+                                className={`w-full flex items-center gap-2 text-xs py-0.5 rounded focus:outline-none focus-visible:ring-1 ${isDarkMode ? 'text-slate-300 focus-visible:ring-teal-400' : 'text-gray-600 focus-visible:ring-teal-600'}`}
+                            >
+                                <span className="w-24 text-left font-medium">{dimension.label}</span>
+                                <span className={`flex-1 h-1.5 rounded-full overflow-hidden ${isDarkMode ? 'bg-slate-600' : 'bg-gray-200'}`}>
+                                    <span className={`block h-full rounded-full ${isDarkMode ? 'bg-teal-400' : 'bg-teal-600'}`} style={{ width: `${(score / 5) * 100}%` }} />
+                                </span>
+                                <span className="w-7 text-right tabular-nums">{score}/5</span>
+                                <svg xmlns="http://www.w3.org/2000/svg" className={`h-3 w-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+                                </svg>
+                            </button>
+                            <AnimatePresence initial={false}>
+                                {isOpen && (
+                                    <motion.div
+                                        initial={{ height: 0, opacity: 0 }}
+                                        animate={{ height: 'auto', opacity: 1 }}
+                                        exit={{ height: 0, opacity: 0 }}
+                                        transition={{ duration: 0.2 }}
+                                        className="overflow-hidden"
+                                    >
+                                        <div className={`mt-1 mb-2 pl-2 border-l-2 text-xs space-y-1.5 ${isDarkMode ? 'border-teal-500/50 text-slate-300' : 'border-teal-600/40 text-gray-600'}`}>
+                                            <p className="italic">{justification || 'No justification was provided for this score.'}</p>
+                                            <ul className="space-y-0.5">
+                                                {dimension.criteria.map((criterion, index) => {
+                                                    const isMet = criteriaMet?.includes(index + 1);
+                                                    return (
+                                                        <li key={criterion.text} className={`flex items-start gap-1.5 ${criteriaMet && !isMet ? (isDarkMode ? 'text-slate-500' : 'text-gray-400') : ''}`}>
+                                                            <span className="w-3 flex-shrink-0 text-center">{criteriaMet ? (isMet ? '✓' : '·') : '–'}</span>
+                                                            <span>
+                                                                {criterion.text.replace(/`/g, '')}
+                                                                {scoreData.method === 'hybrid' && criterion.detect && (
+                                                                    <span title="Scored from the article's HTML structure, not by the model" className={`ml-1 px-1 rounded text-[10px] uppercase tracking-wide ${isDarkMode ? 'bg-slate-600 text-slate-300' : 'bg-gray-200 text-gray-500'}`}>measured</span>
+                                                                )}
+                                                            </span>
+                                                        </li>
+                                                    );
+                                                })}
+                                            </ul>
+                                            {!criteriaMet && (
+                                                <p className={isDarkMode ? 'text-slate-500' : 'text-gray-400'}>Criteria breakdown not available for this analysis.</p>
+                                            )}
+                                        </div>
+                                    </motion.div>
+                                )}
+                            </AnimatePresence>
+                        </li>
+                    );
+                })}
+            </ul>
         </div>
     );
 };
 
-// Add the SimilarityScoreDisplay component
-interface SimilarityScoreDisplayProps {
-    score: number;
+// --- Component: Readability metrics (computed locally from the extracted text) ---
+const describeReadingEase = (score: number): string =>
+    score >= 90 ? 'Very easy' : score >= 80 ? 'Easy' : score >= 70 ? 'Fairly easy' : score >= 60 ? 'Plain English'
+        : score >= 50 ? 'Fairly difficult' : score >= 30 ? 'Difficult' : 'Very difficult';
+
+interface TextMetricsDisplayProps {
+    metrics: TextMetrics;
     isDarkMode: boolean;
 }
-const SimilarityScoreDisplay: React.FC<SimilarityScoreDisplayProps> = ({ score, isDarkMode }) => {
-    const getScoreColor = (score: number) => {
-        if (score >= 0.8) return isDarkMode ? 'text-green-400' : 'text-green-600';
-        if (score >= 0.6) return isDarkMode ? 'text-yellow-400' : 'text-yellow-600';
-        return isDarkMode ? 'text-red-400' : 'text-red-600';
+const TextMetricsDisplay: React.FC<TextMetricsDisplayProps> = ({ metrics, isDarkMode }) => {
+    const rows: Array<[string, string, string?]> = [
+        ['Reading ease', `${metrics.fleschReadingEase} · ${describeReadingEase(metrics.fleschReadingEase)}`, 'Flesch reading ease, 0-100; higher is easier'],
+        ['Grade level', `${metrics.fleschKincaidGrade}`, 'Flesch-Kincaid US school grade'],
+        ['Sentence length', `${metrics.averageSentenceWords} words`, `Average over ${metrics.sentenceCount} sentences`],
+        ['Paragraph length', `${metrics.averageParagraphWords} words`, `Average over ${metrics.paragraphCount} paragraphs`],
+        ['Passive voice', `${Math.round(metrics.passiveVoiceRatio * 100)}% of sentences`, 'Estimated from "to be" + past participle'],
+    ];
+    return (
+        <div className="mt-3 pt-3 border-t border-dashed border-gray-300 dark:border-slate-600">
+            <h4 className={`text-xs font-semibold mb-1.5 uppercase tracking-wider ${isDarkMode ? 'text-teal-400' : 'text-teal-600'}`}>
+                Readability
+            </h4>
+            <p className={`text-sm font-medium mb-2 ${isDarkMode ? 'text-slate-200' : 'text-gray-700'}`}>
+                <span className="text-lg font-bold">{metrics.readingTimeMinutes}</span> min read · {metrics.wordCount.toLocaleString()} words
+            </p>
+            <dl className={`grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs ${isDarkMode ? 'text-slate-300' : 'text-gray-600'}`}>
+                {rows.map(([label, value, hint]) => (
+                    <React.Fragment key={label}>
+                        <dt className="font-medium" title={hint}>{label}</dt>
+                        <dd className="text-right tabular-nums">{value}</dd>
+                    </React.Fragment>
+                ))}
+            </dl>
+        </div>
+    );
+};
+
+// --- Component: Framing Summary (only when the framing pass ran) ---
+interface FramingDisplayProps {
+    framing: ArticleFraming;
+    isDarkMode: boolean;
+}
+const FramingDisplay: React.FC<FramingDisplayProps> = ({ framing, isDarkMode }) => (
+    <div className="mt-3 pt-3 border-t border-dashed border-gray-300 dark:border-slate-600">
+        <h4 className={`text-xs font-semibold mb-1.5 uppercase tracking-wider ${isDarkMode ? 'text-teal-400' : 'text-teal-600'}`}>
+            Framing
+        </h4>
+        {framing.summary && (
+            <p className={`text-sm mb-2 ${isDarkMode ? 'text-slate-300' : 'text-gray-700'}`}>{framing.summary}</p>
+        )}
+        <p className={`text-xs ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`}>
+            {framing.commentarySections} of {framing.sectionsLabeled} section{framing.sectionsLabeled === 1 ? '' : 's'} commentary · {framing.loadedPhraseCount} loaded phrase{framing.loadedPhraseCount === 1 ? '' : 's'}
+        </p>
+    </div>
+);
+
+// --- Component: Export buttons (Markdown, HTML, PDF and JSON) ---
+const EXPORT_BUTTONS: Array<{ format: ExportFormat; label: string; title: string }> = [
+    { format: 'markdown', label: 'Markdown', title: 'Download as Markdown' },
+    { format: 'html', label: 'HTML', title: 'Download as a standalone HTML page' },
+    { format: 'pdf', label: 'PDF', title: 'Download a print-ready PDF' },
+    { format: 'json', label: 'JSON', title: 'Download the full analysis as versioned JSON' },
+];
+
+// The export endpoint's response, or an error carrying its message
+const fetchExport = async (story: StoryData, format: ExportFormat): Promise<Response> => {
+    const response = await fetch('/api/export-story', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ story, format }),
+    });
+    if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Export failed with status: ${response.status}`);
+    }
+    return response;
+};
+
+interface ExportPanelProps {
+    story: StoryData;
+    isDarkMode: boolean;
+}
+const ExportPanel: React.FC<ExportPanelProps> = ({ story, isDarkMode }) => {
+    const [status, setStatus] = useState<string | null>(null);
+    const [busy, setBusy] = useState<boolean>(false);
+
+    const run = async (task: () => Promise<string | null>): Promise<void> => {
+        setBusy(true);
+        setStatus(null);
+        try {
+            setStatus(await task());
+        } catch (exportError: unknown) {
+            setStatus(exportError instanceof Error ? exportError.message : 'Export failed.');
+        } finally {
+            setBusy(false);
+        }
     };
 
+    const download = (format: ExportFormat) => run(async () => {
+        const response = await fetchExport(story, format);
+        const url = URL.createObjectURL(await response.blob());
+        const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'story';
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 60_000);
+        return null;
+    });
+
+    const copyMarkdown = () => run(async () => {
+        const response = await fetchExport(story, 'markdown');
+        await navigator.clipboard.writeText(await response.text());
+        return 'Markdown copied to the clipboard.';
+    });
+
+    const buttonClass = `px-2 py-1 rounded text-xs font-medium transition-colors disabled:opacity-50 ${isDarkMode ? 'bg-slate-600 text-slate-200 hover:bg-slate-500' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`;
     return (
         <div className="mt-3 pt-3 border-t border-dashed border-gray-300 dark:border-slate-600">
             <h4 className={`text-xs font-semibold mb-1.5 uppercase tracking-wider ${isDarkMode ? 'text-teal-400' : 'text-teal-600'}`}>
-                Content Similarity Score
+                Export
             </h4>
-            <div className="flex items-center justify-between">
-                <p className={`text-sm font-medium ${isDarkMode ? 'text-slate-200' : 'text-gray-700'}`}>
-                    Score: <span className={`text-lg font-bold ${getScoreColor(score)}`}>{Math.round(score * 100)}%</span>
-                </p>
-                <div className={`text-xs ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`}>
-                    {score >= 0.8 ? 'Excellent' : score >= 0.6 ? 'Good' : 'Needs Review'}
-                </div>
+            <div className="flex flex-wrap gap-1.5">
+                {EXPORT_BUTTONS.map(button => (
+                    <button key={button.format} type="button" onClick={() => download(button.format)} disabled={busy} title={button.title} className={buttonClass}>
+                        {button.label}
+                    </button>
+                ))}
+                <button type="button" onClick={copyMarkdown} disabled={busy} title="Copy as Markdown, for briefing docs and Slack" className={buttonClass}>
+                    Copy Markdown
+                </button>
             </div>
+            {status && <p className={`mt-1.5 text-xs ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`}>{status}</p>}
         </div>
     );
 };
 
+// --- Component: Publication Date (reader's locale; notes when the story was updated) ---
+interface PublicationDateTextProps {
+    publishedAt?: PublicationDate | null;
+    modifiedAt?: PublicationDate | null;
+    fallback?: string | null; // Display string for stories without a structured date
+}
+const PublicationDateText: React.FC<PublicationDateTextProps> = ({ publishedAt, modifiedAt, fallback }) => {
+    const published = publishedAt ? formatPublicationDate(publishedAt) : fallback && fallback !== 'Date not specified' ? fallback : null;
+    const updated = modifiedAt && wasUpdated(publishedAt, modifiedAt) ? formatPublicationDate(modifiedAt) : null;
+    if (!published && !updated) return null;
+    return (
+        <span title={publishedAt ? describeDate(publishedAt) : undefined}>
+            {published}
+            {updated && <span title={modifiedAt ? describeDate(modifiedAt) : undefined}>{published ? ` (updated ${updated})` : `Updated ${updated}`}</span>}
+        </span>
+    );
+};
+
+// --- Component: Streaming Progress (shown while the pipeline runs) ---
+interface PipelineProgressProps {
+    completedStages: PipelineStage[];
+    metadata: ArticleMetadata | null;
+    partialSummary: string;
+    isDarkMode: boolean;
+}
+const PipelineProgress: React.FC<PipelineProgressProps> = ({ completedStages, metadata, partialSummary, isDarkMode }) => {
+    const activeIndex = PIPELINE_STEPS.findIndex(step => !completedStages.includes(step.stage));
+
+    return (
+        <div className="w-full max-w-xl mx-auto mt-6 space-y-5 text-left">
+            <ol className="space-y-1.5">
+                {PIPELINE_STEPS.map((step, index) => {
+                    const isComplete = completedStages.includes(step.stage);
+                    const isActive = index === activeIndex;
+                    return (
+                        <li key={step.stage} className={`flex items-center text-sm ${isComplete ? (isDarkMode ? 'text-slate-200' : 'text-gray-800') : isActive ? (isDarkMode ? 'text-teal-400' : 'text-teal-700') : (isDarkMode ? 'text-slate-500' : 'text-gray-400')}`}>
+                            <span className="w-5 mr-2 flex justify-center">
+                                {isComplete ? (
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" /></svg>
+                                ) : isActive ? (
+                                    <span className={`h-2 w-2 rounded-full animate-pulse ${isDarkMode ? 'bg-teal-400' : 'bg-teal-700'}`} />
+                                ) : (
+                                    <span className={`h-1.5 w-1.5 rounded-full ${isDarkMode ? 'bg-slate-600' : 'bg-gray-300'}`} />
+                                )}
+                            </span>
+                            {step.label}
+                        </li>
+                    );
+                })}
+            </ol>
+
+            <AnimatePresence>
+                {metadata && (
+                    <motion.div
+                        key="metadata-preview"
+                        variants={itemVariants} initial="hidden" animate="visible" exit="exit"
+                        className={`rounded-lg p-4 flex gap-4 ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-gray-200'} border`}
+                    >
+                        {metadata.imageUrl && (
+                            <ProxiedImg
+                                src={metadata.imageUrl}
+                                alt={metadata.title ? `${metadata.title} - primary image` : 'Article primary image'}
+                                proxyWidth={128}
+                                referer={metadata.originalUrl || undefined}
+                                className="w-24 h-24 object-cover rounded flex-shrink-0"
+                                onError={(e) => { (e.currentTarget as HTMLImageElement).style.display = 'none'; }}
+                            />
+                        )}
+                        <div className="min-w-0">
+                            <h4 className={`text-base font-semibold font-serif leading-snug mb-1 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{metadata.title}</h4>
+                            <p className={`text-xs mb-2 ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`}>
+                                Source: <span className="font-medium">{metadata.source}</span>
+                                {metadata.author && (<> | By: <span className="font-medium">{metadata.author}</span></>)}
+                                {(metadata.date || metadata.publishedAt || metadata.modifiedAt) && (<> | <PublicationDateText publishedAt={metadata.publishedAt} modifiedAt={metadata.modifiedAt} fallback={metadata.date} /></>)}
+                            </p>
+                            {partialSummary && (
+                                <p className={`text-sm leading-relaxed ${isDarkMode ? 'text-slate-300' : 'text-gray-700'}`}>{partialSummary}</p>
+                            )}
+                        </div>
+                    </motion.div>
+                )}
+            </AnimatePresence>
+        </div>
+    );
+};
+
+
+// --- Component: Side-by-side comparison of two articles ---
+const SPICE_DELTA_LABELS: Record<string, string> = Object.fromEntries([...SPICE_RUBRIC.map(dimension => [dimension.key, dimension.label]), ['total', 'Total']]);
+
+// The left article's columns are "A", the right's "B"; section ids get a prefix so both can be on the page
+const comparedSectionId = (side: 'left' | 'right', sectionId: string): string => `${side}-${sectionId}`;
+
+interface CompareViewProps {
+    data: CompareResponse;
+    isDarkMode: boolean;
+}
+const CompareView: React.FC<CompareViewProps> = ({ data, isDarkMode }) => {
+    const { left, right, comparison } = data;
+    const mutedText = isDarkMode ? 'text-slate-400' : 'text-gray-500';
+    const headingClass = `text-xs font-semibold mb-2 uppercase tracking-wider ${isDarkMode ? 'text-teal-400' : 'text-teal-600'}`;
+    const cardClass = `rounded-lg p-4 border ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-gray-200'}`;
+    const problems = comparison.warnings.filter(warning => warning.code !== 'repaired');
+
+    const jumpToSection = (side: 'left' | 'right', sectionId: string | null) => {
+        if (!sectionId) return;
+        document.getElementById(comparedSectionId(side, sectionId))?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    };
+
+    // A fact with links to the sections that state it
+    const renderFact = (fact: ComparedFact, index: number) => (
+        <li key={`${fact.fact}-${index}`} className="text-sm">
+            <span className={isDarkMode ? 'text-slate-200' : 'text-gray-800'}>{fact.fact}</span>
+            {(['left', 'right'] as const).map(side => {
+                const sectionId = side === 'left' ? fact.leftSectionId : fact.rightSectionId;
+                return sectionId && (
+                    <button key={side} type="button" onClick={() => jumpToSection(side, sectionId)} className={`ml-2 text-xs underline underline-offset-2 ${mutedText}`}>
+                        {side === 'left' ? 'A' : 'B'}
+                    </button>
+                );
+            })}
+        </li>
+    );
+
+    const renderQuote = (quote: Quote, side: 'left' | 'right') => (
+        <li key={`${quote.sectionId}-${quote.text}`} className="text-sm">
+            <button type="button" onClick={() => jumpToSection(side, quote.sectionId)} className="text-left">
+                <span className={`italic ${isDarkMode ? 'text-slate-200' : 'text-gray-800'}`}>“{quote.text}”</span>
+                <span className={`block text-xs ${mutedText}`}>{quote.speaker ? `— ${quote.speaker}` : 'Unattributed'}</span>
+            </button>
+        </li>
+    );
+
+    const columns: Array<{ side: 'left' | 'right'; label: string; story: StoryData; onlyFacts: ComparedFact[]; onlyQuotes: Quote[]; onlySources: string[] }> = [
+        { side: 'left', label: 'A', story: left, onlyFacts: comparison.leftOnlyFacts, onlyQuotes: comparison.quotes.leftOnly, onlySources: comparison.sources.leftOnly },
+        { side: 'right', label: 'B', story: right, onlyFacts: comparison.rightOnlyFacts, onlyQuotes: comparison.quotes.rightOnly, onlySources: comparison.sources.rightOnly },
+    ];
+
+    return (
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ duration: 0.5 }} className="space-y-6">
+            {problems.length > 0 && (
+                <div className={`text-xs rounded-md px-3 py-2 ${isDarkMode ? 'bg-amber-900/30 text-amber-300' : 'bg-amber-50 text-amber-800'}`}>
+                    <p className="font-medium mb-1">Partial comparison</p>
+                    <ul className="list-disc list-inside space-y-0.5">
+                        {problems.map((warning, index) => <li key={`${warning.path}-${index}`}>{warning.message}</li>)}
+                    </ul>
+                </div>
+            )}
+
+            {/* Facts both report */}
+            <section className={cardClass}>
+                <h3 className={headingClass}>Reported by both ({comparison.sharedFacts.length})</h3>
+                {comparison.sharedFacts.length > 0
+                    ? <ul className="list-disc list-inside space-y-1">{comparison.sharedFacts.map(renderFact)}</ul>
+                    : <p className={`text-sm ${mutedText}`}>No shared facts were found.</p>}
+            </section>
+
+            {/* Framing */}
+            {comparison.framing.length > 0 && (
+                <section className={cardClass}>
+                    <h3 className={headingClass}>Framing differences</h3>
+                    <div className="space-y-3">
+                        {comparison.framing.map(difference => (
+                            <div key={difference.aspect}>
+                                <p className={`text-sm font-semibold mb-1 ${isDarkMode ? 'text-slate-200' : 'text-gray-800'}`}>{difference.aspect}</p>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                                    <p className={isDarkMode ? 'text-slate-300' : 'text-gray-700'}><span className="font-semibold">A:</span> {difference.left}</p>
+                                    <p className={isDarkMode ? 'text-slate-300' : 'text-gray-700'}><span className="font-semibold">B:</span> {difference.right}</p>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            {/* SPICE deltas */}
+            {comparison.spiceDeltas && (
+                <section className={cardClass}>
+                    <h3 className={headingClass}>SPICE difference (B − A)</h3>
+                    <div className="flex flex-wrap gap-2">
+                        {comparison.spiceDeltas.map(delta => (
+                            <span key={delta.dimension} className={`px-2 py-1 rounded text-xs ${isDarkMode ? 'bg-slate-700' : 'bg-gray-100'}`}>
+                                <span className="font-medium">{SPICE_DELTA_LABELS[delta.dimension]}</span>{' '}
+                                <span className="tabular-nums">{delta.left} → {delta.right}</span>{' '}
+                                <span className={`font-semibold ${delta.delta > 0 ? (isDarkMode ? 'text-green-400' : 'text-green-700') : delta.delta < 0 ? (isDarkMode ? 'text-red-400' : 'text-red-700') : mutedText}`}>
+                                    {delta.delta > 0 ? `+${delta.delta}` : delta.delta}
+                                </span>
+                            </span>
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            {/* Quotes and sources in common */}
+            {(comparison.quotes.shared.length > 0 || comparison.sources.shared.length > 0) && (
+                <section className={cardClass}>
+                    <h3 className={headingClass}>In both</h3>
+                    {comparison.sources.shared.length > 0 && (
+                        <p className={`text-sm mb-2 ${isDarkMode ? 'text-slate-300' : 'text-gray-700'}`}>
+                            <span className="font-medium">Sources:</span> {comparison.sources.shared.join(', ')}
+                        </p>
+                    )}
+                    {comparison.quotes.shared.length > 0 && (
+                        <ul className="space-y-2">{comparison.quotes.shared.map(match => renderQuote(match.left, 'left'))}</ul>
+                    )}
+                </section>
+            )}
+
+            {/* The two articles */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {columns.map(column => (
+                    <div key={column.side} className="space-y-4 min-w-0">
+                        <header className={cardClass}>
+                            <p className={`text-xs font-semibold ${mutedText}`}>Article {column.label}</p>
+                            <h2 className={`text-lg font-bold font-serif leading-snug ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{column.story.title}</h2>
+                            <p className={`text-xs mt-1 ${mutedText}`}>
+                                {column.story.source}
+                                {column.story.author && <> | By {column.story.author}</>}
+                                {column.story.originalUrl && (
+                                    <> | <a href={column.story.originalUrl} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2">Original</a></>
+                                )}
+                            </p>
+                            <p className={`text-sm mt-2 ${isDarkMode ? 'text-slate-300' : 'text-gray-700'}`}>{column.story.summary}</p>
+                            {column.story.spiceScore && <SpiceScoreDisplay scoreData={column.story.spiceScore} isDarkMode={isDarkMode} />}
+                        </header>
+                        <section className={cardClass}>
+                            <h3 className={headingClass}>Only in {column.label} ({column.onlyFacts.length})</h3>
+                            {column.onlyFacts.length > 0
+                                ? <ul className="list-disc list-inside space-y-1">{column.onlyFacts.map(renderFact)}</ul>
+                                : <p className={`text-sm ${mutedText}`}>Nothing the other article leaves out.</p>}
+                            {column.onlySources.length > 0 && (
+                                <p className={`text-sm mt-3 ${isDarkMode ? 'text-slate-300' : 'text-gray-700'}`}>
+                                    <span className="font-medium">Sources only here:</span> {column.onlySources.join(', ')}
+                                </p>
+                            )}
+                            {column.onlyQuotes.length > 0 && (
+                                <>
+                                    <p className={`text-sm font-medium mt-3 mb-1 ${isDarkMode ? 'text-slate-300' : 'text-gray-700'}`}>Quotes only here</p>
+                                    <ul className="space-y-2">{column.onlyQuotes.map(quote => renderQuote(quote, column.side))}</ul>
+                                </>
+                            )}
+                        </section>
+                        <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+                            {column.story.factSections.map(section => (
+                                <FactSectionDisplay key={section.id} section={{ ...section, id: comparedSectionId(column.side, section.id) }} isDarkMode={isDarkMode} />
+                            ))}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </motion.div>
+    );
+};
+
 
 // --- Main Component ---
 const SmartStorySuite: React.FC = () => {
   const [urlInput, setUrlInput] = useState<string>('');
+  const [inputMode, setInputMode] = useState<FormMode>('url');
+  const [pastedContent, setPastedContent] = useState<string>('');
+  const [compareUrlInput, setCompareUrlInput] = useState<string>('');
   const [storyData, setStoryData] = useState<StoryData | null>(null);
+  const [comparison, setComparison] = useState<CompareResponse | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [activeSectionId, setActiveSectionId] = useState<string | null>(null);
-  const [readMode, setReadMode] = useState<'summary' | 'detailed'>('summary');
+  const [selectedEntityId, setSelectedEntityId] = useState<string | null>(null);
+  const [readMode, setReadMode] = useState<ReadMode>('summary');
+  const [analyzeClaims, setAnalyzeClaims] = useState<boolean>(false);
+  const [analyzeTimeline, setAnalyzeTimeline] = useState<boolean>(false);
+  const [analyzeFraming, setAnalyzeFraming] = useState<boolean>(false);
+  const [showFraming, setShowFraming] = useState<boolean>(true);
   const [isDarkMode, setIsDarkMode] = useState<boolean>(false);
   const [imageLoadError, setImageLoadError] = useState<boolean>(false);
-  const [enlargedImageUrl, setEnlargedImageUrl] = useState<string | null>(null);
+  const [enlargedImage, setEnlargedImage] = useState<ArticleImage | null>(null);
+  const [completedStages, setCompletedStages] = useState<PipelineStage[]>([]);
+  const [streamedMetadata, setStreamedMetadata] = useState<ArticleMetadata | null>(null);
+  const [partialSummary, setPartialSummary] = useState<string>('');
+  const [isOpeningStory, setIsOpeningStory] = useState<boolean>(false);
+  const [linkCopied, setLinkCopied] = useState<boolean>(false);
+  const permalinkId = useParams<{ id?: string }>()?.id ?? null;
 
   useEffect(() => {
     const prefersDark = window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches;
@@ -309,6 +1141,76 @@ const SmartStorySuite: React.FC = () => {
   }, [isDarkMode]);
 
 
+  // The id of the story on screen, read by the permalink effect without re-running it on every
+  // new story: syncing the address bar to a story just analyzed changes the route's id too
+  const shownStoryId = useRef<string | null>(null);
+  useEffect(() => {
+    shownStoryId.current = storyData?.id ?? null;
+  }, [storyData?.id]);
+
+  // A permalink (/story/[id]?view=...&section=...) opens the saved story as it was shared
+  useEffect(() => {
+    if (!permalinkId || shownStoryId.current === permalinkId) return;
+    const query = new URLSearchParams(window.location.search);
+    const view = query.get('view') as ReadMode | null;
+    const sectionId = query.get('section');
+    let cancelled = false;
+
+    const openSavedStory = async (): Promise<void> => {
+        setIsLoading(true);
+        setIsOpeningStory(true);
+        setError(null);
+        try {
+            const response = await fetch(`/api/stories/${encodeURIComponent(permalinkId)}`);
+            const data = await response.json().catch(() => null);
+            if (!response.ok || !data) {
+                throw new Error(data?.error || `Request failed with status: ${response.status} ${response.statusText}`);
+            }
+            if (cancelled) return;
+            const story = data as StoryData;
+            setStoryData(story);
+            setUrlInput(story.originalUrl);
+            setReadMode(view && READ_MODES.includes(view) ? view : 'summary');
+            if (sectionId && story.factSections.some(section => section.id === sectionId)) {
+                setActiveSectionId(sectionId);
+                setTimeout(() => {
+                    document.getElementById(sectionId)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+                }, 300);
+            }
+        } catch (err: unknown) {
+            console.error(`Failed to open saved story ${permalinkId}:`, err);
+            if (!cancelled) setError(describeError(err));
+        } finally {
+            if (!cancelled) {
+                setIsLoading(false);
+                setIsOpeningStory(false);
+            }
+        }
+    };
+    openSavedStory();
+    return () => { cancelled = true; };
+  }, [permalinkId]);
+
+  // Keeps the address bar on the current story's permalink, so it can be shared or refreshed
+  useEffect(() => {
+    if (!storyData?.id) return;
+    const permalink = storyPermalink(storyData.id, readMode, activeSectionId);
+    if (`${window.location.pathname}${window.location.search}` !== permalink) {
+        window.history.replaceState(null, '', permalink);
+    }
+  }, [storyData?.id, readMode, activeSectionId]);
+
+  const copyPermalink = async (): Promise<void> => {
+    if (!storyData?.id) return;
+    try {
+        await navigator.clipboard.writeText(`${window.location.origin}${storyPermalink(storyData.id, readMode, activeSectionId)}`);
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+    } catch (copyError: unknown) {
+        console.warn('Could not copy the story link:', copyError);
+    }
+  };
+
   const toggleTheme = (): void => setIsDarkMode(!isDarkMode);
 
   const handleSectionClick = (sectionId: string): void => {
@@ -317,80 +1219,205 @@ const SmartStorySuite: React.FC = () => {
       setTimeout(() => {
           document.getElementById(sectionId)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
        }, 50);
-    } else if (readMode === 'summary') {
+    } else {
+        // Summary mode shows the section; claims mode lists the section's claims
         const mainContentElement = document.querySelector('main');
         mainContentElement?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
     }
   };
 
-  const changeReadMode = (newMode: 'summary' | 'detailed'): void => {
+  const changeReadMode = (newMode: ReadMode): void => {
      setReadMode(newMode);
      setActiveSectionId(null);
   }
 
-  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
-      event.preventDefault();
-      if (!urlInput || isLoading) return;
+  // From a claim to its section in the detailed view
+  const showSectionInDetail = (sectionId: string): void => {
+     setReadMode('detailed');
+     setActiveSectionId(sectionId);
+     setTimeout(() => {
+         document.getElementById(sectionId)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+     }, 50);
+  };
 
+  const canSubmit = inputMode === 'url' ? !!urlInput
+      : inputMode === 'compare' ? !!urlInput && !!compareUrlInput
+      : !!pastedContent.trim();
+
+  // Maps a failed status (HTTP or streamed error event) to a user-facing message
+  const describeFailure = (status: number, errorMsg: string): string => {
+      if (status >= 500 && status < 600) {
+          return "Something wasn't right with the analysis service. Please try pasting the URL again or try a different article.";
+      } else if (status === 400) {
+          return `Invalid request${errorMsg ? `: ${errorMsg}` : '.'} Please check the ${inputMode === 'url' || inputMode === 'compare' ? 'URL' : 'pasted content'}.`;
+      } else if (status === 403 || status === 404) {
+          return `Could not access article: ${errorMsg}`;
+      }
+      return errorMsg;
+  };
+
+  // The message shown for an error thrown while analyzing
+  const describeError = (err: unknown): string => {
+      let message = 'An unexpected error occurred. Please try again.';
+      if (err instanceof Error) {
+          message = err.message;
+      }
+      if (message.toLowerCase().includes('fetch') || message.toLowerCase().includes('network') || message.toLowerCase().includes('service')) {
+          message = "Something wasn't right. Please check your connection and try pasting the URL again.";
+      }
+      return message;
+  };
+
+  // The request behind the current analysis or comparison. Reset and each new run abort it, so a
+  // request left running can't overwrite newer state with its late events.
+  const runController = useRef<AbortController | null>(null);
+  const startRun = (): AbortController => {
+      runController.current?.abort();
+      const controller = new AbortController();
+      runController.current = controller;
+      return controller;
+  };
+
+  // Runs both URLs through the pipeline and compares them (not streamed)
+  const runComparison = async (force = false): Promise<void> => {
+      if (!canSubmit || isLoading) return;
+
+      const controller = startRun();
       setIsLoading(true);
       setError(null);
       setStoryData(null);
+      setComparison(null);
+      setCompletedStages([]);
+      setStreamedMetadata(null);
+      setPartialSummary('');
+
+      try {
+          const response = await fetch('/api/compare-articles', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ articleUrls: [urlInput, compareUrlInput], force }),
+              signal: controller.signal,
+          });
+          const data = await response.json().catch(() => null);
+          if (controller.signal.aborted) return;
+          if (!response.ok || !data) {
+              throw new Error(describeFailure(response.status, data?.error || `Request failed with status: ${response.status} ${response.statusText}`));
+          }
+          setComparison(data as CompareResponse);
+      } catch (err: unknown) {
+          if (controller.signal.aborted) return;
+          console.error("Failed to compare articles:", err);
+          setError(describeError(err));
+      } finally {
+          if (runController.current === controller) setIsLoading(false);
+      }
+  };
+
+  // Runs the streaming analysis for the current input; force skips the server's analysis cache
+  const runAnalysis = async (force = false): Promise<void> => {
+      if (!canSubmit || isLoading) return;
+      if (inputMode === 'compare') return runComparison(force);
+
+      const controller = startRun();
+      setIsLoading(true);
+      setError(null);
+      setStoryData(null);
+      setComparison(null);
       setActiveSectionId(null);
+      setSelectedEntityId(null);
       setReadMode('summary');
       setImageLoadError(false);
-      setEnlargedImageUrl(null);
+      setEnlargedImage(null);
+      setCompletedStages([]);
+      setStreamedMetadata(null);
+      setPartialSummary('');
 
       try {
-           const response = await fetch('/api/process-article', {
+           const response = await fetch('/api/process-article/stream', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ articleUrl: urlInput }),
+                body: JSON.stringify(inputMode === 'url'
+                    ? { articleUrl: urlInput, force, claims: analyzeClaims, timeline: analyzeTimeline, framing: analyzeFraming }
+                    : { [inputMode === 'html' ? 'articleHtml' : 'articleText']: pastedContent, articleUrl: urlInput || undefined, force, claims: analyzeClaims, timeline: analyzeTimeline, framing: analyzeFraming }),
+                signal: controller.signal,
            });
-           const data = await response.json();
-
-           console.log('<<< API RESPONSE >>> Raw data received:', data);
 
            if (!response.ok) {
-                const errorMsg = data?.error || `Request failed with status: ${response.status} ${response.statusText}`;
-                 if (response.status >= 500 && response.status < 600) {
-                     throw new Error("Something wasn't right with the analysis service. Please try pasting the URL again or try a different article.");
-                 } else if (response.status === 400) {
-                     throw new Error(`Invalid request${data?.error ? `: ${data.error}` : '.'} Please check the URL.`);
-                 } else if (response.status === 403 || response.status === 404) {
-                     throw new Error(`Could not access article: ${errorMsg}`);
-                 }
-                throw new Error(errorMsg);
+                const data = await response.json().catch(() => null);
+                throw new Error(describeFailure(response.status, data?.error || `Request failed with status: ${response.status} ${response.statusText}`));
            }
 
-           console.log('<<< API RESPONSE >>> Primary imageUrl:', data?.imageUrl);
-           console.log('<<< API RESPONSE >>> Additional imageUrls count:', data?.imageUrls?.length ?? 0);
-           console.log('<<< API RESPONSE >>> SPICE Score:', data?.spiceScore); // Log SPICE score
+           // Filled in by the terminal 'done' or 'error' event
+           const outcome: { story: StoryData | null; failure: Extract<PipelineEvent, { type: 'error' }> | null } = { story: null, failure: null };
+
+           await consumePipelineStream(response, (event) => {
+                if (controller.signal.aborted) return;
+                if (event.type !== 'error') {
+                    setCompletedStages(prev => prev.includes(event.type) ? prev : [...prev, event.type]);
+                }
+                switch (event.type) {
+                    case 'metadata':
+                        setStreamedMetadata(event.metadata);
+                        break;
+                    case 'summary':
+                        setPartialSummary(event.text);
+                        break;
+                    case 'done':
+                        outcome.story = event.story;
+                        break;
+                    case 'error':
+                        outcome.failure = event;
+                        break;
+                }
+           });
+           if (controller.signal.aborted) return;
 
-           setStoryData(data as StoryData); // Cast to StoryData (now includes spiceScore)
-       } catch (err: unknown) {
-          console.error("Failed to process article:", err);
-          let message = 'An unexpected error occurred. Please try again.';
-           if (err instanceof Error) {
-               message = err.message;
+           if (outcome.failure) {
+                throw new Error(describeFailure(outcome.failure.status, outcome.failure.error));
            }
-           if (message.toLowerCase().includes('fetch') || message.toLowerCase().includes('network') || message.toLowerCase().includes('service')) {
-              message = "Something wasn't right. Please check your connection and try pasting the URL again.";
+           if (!outcome.story) {
+                throw new Error("Something wasn't right with the analysis service. The connection closed before the analysis finished.");
            }
-           setError(message);
+           const data = outcome.story;
+
+           console.log('<<< API RESPONSE >>> Primary imageUrl:', data.imageUrl);
+           console.log('<<< API RESPONSE >>> Additional images count:', data.images?.length ?? 0);
+           console.log('<<< API RESPONSE >>> SPICE Score:', data.spiceScore); // Log SPICE score
+
+           setStoryData(data);
+       } catch (err: unknown) {
+          if (controller.signal.aborted) return;
+          console.error("Failed to process article:", err);
+           setError(describeError(err));
            setStoryData(null);
        } finally {
-          setIsLoading(false);
+          if (runController.current === controller) setIsLoading(false);
        }
   };
 
+  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>): Promise<void> => {
+      event.preventDefault();
+      await runAnalysis();
+  };
+
    const handleReset = () => {
+        runController.current?.abort();
+        runController.current = null;
         setUrlInput('');
+        setPastedContent('');
+        setCompareUrlInput('');
         setStoryData(null);
+        setComparison(null);
         setError(null);
         setIsLoading(false);
         setActiveSectionId(null);
+        setSelectedEntityId(null);
         setImageLoadError(false);
-        setEnlargedImageUrl(null);
+        setEnlargedImage(null);
+        setCompletedStages([]);
+        setStreamedMetadata(null);
+        setPartialSummary('');
+        if (window.location.pathname !== '/') window.history.replaceState(null, '', '/');
    }
 
    useEffect(() => {
@@ -402,12 +1429,35 @@ const SmartStorySuite: React.FC = () => {
 
    const activeSectionData = storyData?.factSections.find(s => s.id === activeSectionId);
 
-   const handleImageClick = (imageUrl: string) => {
-       setEnlargedImageUrl(imageUrl);
+   // The chosen entity's mention counts per section, and the pattern that marks its mentions
+   const selectedEntity = storyData?.entities?.find(entity => entity.id === selectedEntityId) ?? null;
+   const entityMentions = new Map(selectedEntity?.mentions.map(mention => [mention.sectionId, mention.count]) ?? []);
+   const entityPattern = selectedEntity ? buildMentionPattern([selectedEntity.name, ...selectedEntity.aliases]) : null;
+   const visibleSections = (storyData?.factSections ?? []).filter(section => !selectedEntity || entityMentions.has(section.id));
+   const sectionReadingTimes = new Map((storyData?.metrics?.sections ?? []).map(section => [section.sectionId, section.readingTimeSeconds]));
+
+   // Choosing an entity jumps to its first mention; choosing it again clears the filter
+   const handleEntitySelect = (entity: Entity): void => {
+        if (selectedEntityId === entity.id) {
+            setSelectedEntityId(null);
+            return;
+        }
+        setSelectedEntityId(entity.id);
+        if (entity.mentions.length > 0) handleSectionClick(entity.mentions[0].sectionId);
+   };
+
+   // Tooltip naming where a Story Details field came from
+   const sourceLabel = (field: PublicationField): string | undefined => {
+       const source = storyData?.publication?.sources[field];
+       return source ? METADATA_SOURCE_LABELS[source] : undefined;
+   };
+
+   const handleImageClick = (image: ArticleImage) => {
+       setEnlargedImage(image);
    };
 
    const closeImageOverlay = () => {
-       setEnlargedImageUrl(null);
+       setEnlargedImage(null);
    };
 
 
@@ -450,7 +1500,7 @@ const SmartStorySuite: React.FC = () => {
     <div className={`${isDarkMode ? 'dark bg-slate-900 text-slate-200' : 'bg-gray-100 text-gray-800'} min-h-screen transition-colors duration-300 ${bodyFont}`}>
       <div className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
 
-         {!storyData && !isLoading && !error && (
+         {!storyData && !comparison && !isLoading && !error && (
           <div className="text-center mb-8 pt-10">
               <h2 className={`text-2xl font-semibold mb-3 ${titleFont} ${isDarkMode ? 'text-white' : 'text-gray-700'}`}>
                   New View News Analyzer - Beta
@@ -463,8 +1513,41 @@ const SmartStorySuite: React.FC = () => {
 
         <motion.div layout className={`mb-8 p-5 rounded-lg shadow ${isDarkMode ? 'bg-slate-800 border border-slate-700' : 'bg-white border-gray-200/70 border'}`}>
              <form onSubmit={handleSubmit}>
+                <div role="tablist" aria-label="Article input" className={`inline-flex items-center space-x-1 p-1 mb-3 rounded-md ${isDarkMode ? 'bg-slate-700' : 'bg-gray-100'}`}>
+                    {INPUT_MODES.map(({ mode, label }) => (
+                        <button
+                            key={mode}
+                            type="button"
+                            role="tab"
+                            aria-selected={inputMode === mode}
+                            onClick={() => setInputMode(mode)}
+                            disabled={isLoading}
+                            className={`px-3 py-1 text-xs sm:text-sm font-medium rounded transition-colors ${ inputMode === mode ? `${isDarkMode ? 'bg-teal-600 text-white shadow-sm' : 'bg-teal-700 text-white shadow-sm'}` : `${isDarkMode ? 'text-slate-300 hover:bg-slate-600/50' : 'text-gray-600 hover:bg-gray-200'}` }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                {(inputMode === 'html' || inputMode === 'text') && (
+                    <div className="mb-3">
+                        <label htmlFor="pastedContent" className={`block text-sm font-medium mb-1.5 ${isDarkMode ? 'text-slate-300' : 'text-gray-700'}`}>
+                            {inputMode === 'html' ? 'Article HTML' : 'Article Text'}
+                        </label>
+                        <textarea
+                            id="pastedContent"
+                            name="pastedContent"
+                            value={pastedContent}
+                            onChange={(e) => setPastedContent(e.target.value)}
+                            placeholder={inputMode === 'html' ? 'Paste the page source (View Source → Select All → Copy)' : 'Paste the article text, with a blank line between paragraphs'}
+                            rows={8}
+                            required
+                            className={`w-full p-2 border rounded-md text-sm font-mono ${isDarkMode ? 'bg-slate-700 border-slate-600 text-white placeholder-slate-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'} focus:ring-teal-500 focus:border-teal-500 transition`}
+                            disabled={isLoading}
+                        />
+                    </div>
+                )}
                 <label htmlFor="articleUrl" className={`block text-sm font-medium mb-1.5 ${isDarkMode ? 'text-slate-300' : 'text-gray-700'}`}>
-                    Article URL
+                    {inputMode === 'url' ? 'Article URL' : inputMode === 'compare' ? 'First article URL (A)' : 'Original URL (optional)'}
                 </label>
                 <div className="flex flex-col sm:flex-row sm:items-center gap-2">
                     <input
@@ -474,22 +1557,22 @@ const SmartStorySuite: React.FC = () => {
                         value={urlInput}
                         onChange={(e) => setUrlInput(e.target.value)}
                         placeholder="https://www.example.com/news/article-name"
-                        required
+                        required={inputMode === 'url' || inputMode === 'compare'}
                         className={`flex-grow p-2 border rounded-md text-sm ${isDarkMode ? 'bg-slate-700 border-slate-600 text-white placeholder-slate-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'} focus:ring-teal-500 focus:border-teal-500 transition`}
                         disabled={isLoading}
                     />
                     <button
                         type="submit"
-                        disabled={isLoading || !urlInput}
+                        disabled={isLoading || !canSubmit}
                         className={`px-4 py-2 rounded-md font-semibold text-sm transition flex items-center justify-center whitespace-nowrap ${
                             isLoading
                                 ? `cursor-not-allowed ${isDarkMode ? 'bg-slate-600 text-slate-400' : 'bg-gray-300 text-gray-500'}`
                                 : `text-white ${isDarkMode ? 'bg-teal-600 hover:bg-teal-700' : 'bg-teal-700 hover:bg-teal-800'} disabled:opacity-50 disabled:cursor-not-allowed`
                         }`}
                     >
-                         {isLoading ? ( <> <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"> <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle> <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path> </svg> Processing... </> ) : ( 'Analyze Article' )}
+                         {isLoading ? ( <> <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"> <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle> <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path> </svg> Processing... </> ) : inputMode === 'compare' ? 'Compare Articles' : 'Analyze Article'}
                     </button>
-                    {storyData && !isLoading && (
+                    {(storyData || comparison) && !isLoading && (
                         <button
                             type="button"
                             onClick={handleReset}
@@ -500,6 +1583,43 @@ const SmartStorySuite: React.FC = () => {
                         </button>
                     )}
                 </div>
+                {inputMode === 'compare' && (
+                    <div className="mt-3">
+                        <label htmlFor="compareUrl" className={`block text-sm font-medium mb-1.5 ${isDarkMode ? 'text-slate-300' : 'text-gray-700'}`}>
+                            Second article URL (B)
+                        </label>
+                        <input
+                            type="url"
+                            id="compareUrl"
+                            name="compareUrl"
+                            value={compareUrlInput}
+                            onChange={(e) => setCompareUrlInput(e.target.value)}
+                            placeholder="https://www.another-outlet.com/news/same-story"
+                            required
+                            className={`w-full p-2 border rounded-md text-sm ${isDarkMode ? 'bg-slate-700 border-slate-600 text-white placeholder-slate-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'} focus:ring-teal-500 focus:border-teal-500 transition`}
+                            disabled={isLoading}
+                        />
+                    </div>
+                )}
+                {inputMode !== 'compare' && (
+                    <div className="mt-3 space-y-1">
+                        <label className={`flex items-center gap-2 text-sm cursor-pointer ${isDarkMode ? 'text-slate-300' : 'text-gray-700'}`}>
+                            <input type="checkbox" checked={analyzeClaims} onChange={(e) => setAnalyzeClaims(e.target.checked)} disabled={isLoading} className="accent-teal-600" />
+                            Extract checkable claims
+                            <span className={`text-xs ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`}>(numbers, statistics and attributed statements, for the Claims view)</span>
+                        </label>
+                        <label className={`flex items-center gap-2 text-sm cursor-pointer ${isDarkMode ? 'text-slate-300' : 'text-gray-700'}`}>
+                            <input type="checkbox" checked={analyzeTimeline} onChange={(e) => setAnalyzeTimeline(e.target.checked)} disabled={isLoading} className="accent-teal-600" />
+                            Build a timeline
+                            <span className={`text-xs ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`}>(the dated events the article describes)</span>
+                        </label>
+                        <label className={`flex items-center gap-2 text-sm cursor-pointer ${isDarkMode ? 'text-slate-300' : 'text-gray-700'}`}>
+                            <input type="checkbox" checked={analyzeFraming} onChange={(e) => setAnalyzeFraming(e.target.checked)} disabled={isLoading} className="accent-teal-600" />
+                            Analyze framing and tone
+                            <span className={`text-xs ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`}>(sentiment, opinion and loaded language per section)</span>
+                        </label>
+                    </div>
+                )}
             </form>
             <AnimatePresence>
                 {error && (
@@ -557,14 +1677,27 @@ const SmartStorySuite: React.FC = () => {
                     </svg>
                 </motion.div>
                 <h3 className={`text-lg font-semibold mb-2 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                    Analyzing Article...
+                    {isOpeningStory ? 'Opening Saved Story...' : inputMode === 'compare' ? 'Comparing Articles...' : 'Analyzing Article...'}
                 </h3>
                 <p className={`text-sm ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`}>
                     This may take a moment. Please wait...
                 </p>
+                {inputMode !== 'compare' && !isOpeningStory && (
+                    <PipelineProgress
+                        completedStages={completedStages}
+                        metadata={streamedMetadata}
+                        partialSummary={partialSummary}
+                        isDarkMode={isDarkMode}
+                    />
+                )}
             </motion.div>
         )}
 
+        {/* --- Comparison of two articles --- */}
+        {comparison && !isLoading && (
+            <CompareView data={comparison} isDarkMode={isDarkMode} />
+        )}
+
         {/* --- Story Display Area (Conditional) --- */}
         <AnimatePresence>
          {storyData && !isLoading && (
@@ -589,11 +1722,28 @@ const SmartStorySuite: React.FC = () => {
                         <p className={`text-xs sm:text-sm mb-3 sm:mb-0 ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`}>
                             Source: <span className="font-medium">{storyData.source}</span>
                             {storyData.author && (<> | By: <span className="font-medium">{storyData.author}</span></>)}
-                            {storyData.date && storyData.date !== 'Date not specified' && (<> | {storyData.date}</>)}
+                            {((storyData.date && storyData.date !== 'Date not specified') || storyData.publishedAt || storyData.modifiedAt) && (
+                                <> | <PublicationDateText publishedAt={storyData.publishedAt} modifiedAt={storyData.modifiedAt} fallback={storyData.date} /></>
+                            )}
+                            {storyData.cached && (
+                                <>
+                                    {' | '}
+                                    <span title={storyData.cachedAt ? `Analyzed ${new Date(storyData.cachedAt).toLocaleString()}` : undefined} className={`font-medium ${isDarkMode ? 'text-amber-400' : 'text-amber-700'}`}>Cached result</span>
+                                    {' '}
+                                    <button type="button" onClick={() => runAnalysis(true)} className={`underline underline-offset-2 ${isDarkMode ? 'hover:text-slate-200' : 'hover:text-gray-700'}`}>Re-analyze</button>
+                                </>
+                            )}
+                            {storyData.id && (
+                                <>
+                                    {' | '}
+                                    <button type="button" onClick={copyPermalink} title="Copy a link to this story, in the current view" className={`underline underline-offset-2 ${isDarkMode ? 'hover:text-slate-200' : 'hover:text-gray-700'}`}>{linkCopied ? 'Link copied' : 'Copy link'}</button>
+                                </>
+                            )}
                         </p>
                         <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.4, duration: 0.3 }} className={`flex items-center space-x-2 p-1 rounded-md ${isDarkMode ? 'bg-slate-700' : 'bg-gray-100'}`} >
                             <button onClick={() => changeReadMode('summary')} className={`px-3 py-1 text-xs sm:text-sm font-medium rounded transition-colors ${ readMode === 'summary' ? `${isDarkMode ? 'bg-teal-600 text-white shadow-sm' : 'bg-teal-700 text-white shadow-sm'}` : `${isDarkMode ? 'text-slate-300 hover:bg-slate-600/50' : 'text-gray-600 hover:bg-gray-200'}` }`} > Summary View </button>
                             <button onClick={() => changeReadMode('detailed')} className={`px-3 py-1 text-xs sm:text-sm font-medium rounded transition-colors ${ readMode === 'detailed' ? `${isDarkMode ? 'bg-teal-600 text-white shadow-sm' : 'bg-teal-700 text-white shadow-sm'}` : `${isDarkMode ? 'text-slate-300 hover:bg-slate-600/50' : 'text-gray-600 hover:bg-gray-200'}` }`} > Detailed View </button>
+                            <button onClick={() => changeReadMode('claims')} className={`px-3 py-1 text-xs sm:text-sm font-medium rounded transition-colors ${ readMode === 'claims' ? `${isDarkMode ? 'bg-teal-600 text-white shadow-sm' : 'bg-teal-700 text-white shadow-sm'}` : `${isDarkMode ? 'text-slate-300 hover:bg-slate-600/50' : 'text-gray-600 hover:bg-gray-200'}` }`} > Claims{storyData.claims ? ` (${storyData.claims.length})` : ''} </button>
                         </motion.div>
                     </div>
                </header>
@@ -613,12 +1763,20 @@ const SmartStorySuite: React.FC = () => {
                                 key={section.id}
                                 variants={sidebarItemVariants}
                                 onClick={() => handleSectionClick(section.id)}
-                                className={`w-full py-2.5 px-4 text-left rounded-md transition-colors text-sm font-medium ${ activeSectionId === section.id ? `${isDarkMode ? 'bg-teal-600 text-white' : 'bg-teal-700 text-white'}` : `${isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600/70 hover:text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200 hover:text-gray-900'}` }`} > {section.title} </motion.button>
+                                className={`w-full py-2.5 px-4 text-left rounded-md transition-colors text-sm font-medium ${ activeSectionId === section.id ? `${isDarkMode ? 'bg-teal-600 text-white' : 'bg-teal-700 text-white'}` : `${isDarkMode ? 'bg-slate-700 text-slate-300 hover:bg-slate-600/70 hover:text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200 hover:text-gray-900'}` } ${selectedEntity && !entityMentions.has(section.id) ? 'opacity-40' : ''}`} >
+                                {section.title}
+                                {selectedEntity && entityMentions.has(section.id) && (
+                                    <span className={`ml-2 inline-block px-1.5 rounded-full text-[11px] ${isDarkMode ? 'bg-amber-500/30 text-amber-100' : 'bg-amber-100 text-amber-900'}`} title={`${entityMentions.get(section.id)} mention${entityMentions.get(section.id) === 1 ? '' : 's'} of ${selectedEntity.name}`}>{entityMentions.get(section.id)}</span>
+                                )}
+                             </motion.button>
                            ))}
                            {(!storyData.factSections || storyData.factSections.length === 0) && (
                              <motion.p variants={sidebarItemVariants} className={`text-sm px-1 ${isDarkMode ? 'text-slate-500' : 'text-gray-500'}`}>No specific sections found.</motion.p>
                            )}
                          </div>
+                         <EntityBrowser entities={storyData.entities ?? []} selectedEntityId={selectedEntityId} isDarkMode={isDarkMode} onSelect={handleEntitySelect} />
+                         <QuotesPanel quotes={storyData.quotes ?? []} sections={storyData.factSections ?? []} isDarkMode={isDarkMode} onSelect={handleSectionClick} />
+                         <TimelinePanel timeline={storyData.timeline} sections={storyData.factSections ?? []} isDarkMode={isDarkMode} onSelect={handleSectionClick} />
                      </div>
                  </motion.nav>
 
@@ -629,13 +1787,48 @@ const SmartStorySuite: React.FC = () => {
                          <AnimatePresence mode="wait">
                              {readMode === 'summary' && activeSectionData && (
                                 <motion.div key={activeSectionData.id} variants={itemVariants} initial="hidden" animate="visible" exit="exit" layout>
-                                    <FactSectionDisplay section={activeSectionData} isDarkMode={isDarkMode} />
+                                    <FactSectionDisplay section={activeSectionData} isDarkMode={isDarkMode} highlightPattern={entityPattern} readingTimeSeconds={sectionReadingTimes.get(activeSectionData.id)} />
                                 </motion.div>
                              )}
                          </AnimatePresence>
+                         {readMode === 'detailed' && storyData.framing && (
+                             <div className={`flex flex-wrap items-center justify-between gap-2 text-xs ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`}>
+                                 <label className="flex items-center gap-2 cursor-pointer">
+                                     <input type="checkbox" checked={showFraming} onChange={(event) => setShowFraming(event.target.checked)} className="accent-teal-600" />
+                                     Show framing and tone
+                                 </label>
+                                 {showFraming && (
+                                     <span className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                                         {(Object.keys(SENTIMENT_STYLES) as Sentiment[]).map(sentiment => (
+                                             <span key={sentiment} className="flex items-center gap-1">
+                                                 <span className={`inline-block w-1.5 h-3 rounded-sm ${SENTIMENT_STYLES[sentiment].gutter}`} />
+                                                 {SENTIMENT_STYLES[sentiment].label}
+                                             </span>
+                                         ))}
+                                         <span className={`underline decoration-wavy underline-offset-4 ${isDarkMode ? 'decoration-orange-400' : 'decoration-orange-500'}`}>loaded language</span>
+                                     </span>
+                                 )}
+                             </div>
+                         )}
+                         {readMode === 'detailed' && selectedEntity && (
+                             <div className={`flex items-center justify-between gap-2 text-xs rounded-md px-3 py-2 ${isDarkMode ? 'bg-amber-500/10 text-amber-200' : 'bg-amber-50 text-amber-900'}`}>
+                                 <span>Showing {visibleSections.length} of {storyData.factSections.length} sections mentioning <span className="font-semibold">{selectedEntity.name}</span></span>
+                                 <button type="button" onClick={() => setSelectedEntityId(null)} className="underline underline-offset-2">Show all</button>
+                             </div>
+                         )}
+                         {readMode === 'claims' && (
+                             <ClaimsView
+                                claims={storyData.claims}
+                                sections={storyData.factSections ?? []}
+                                activeSectionId={activeSectionId}
+                                isDarkMode={isDarkMode}
+                                onShowSection={showSectionInDetail}
+                                onClearSection={() => setActiveSectionId(null)}
+                             />
+                         )}
                          {readMode === 'detailed' && (
-                             (storyData.factSections ?? []).map((section: FactSection) => (
-                                <FactSectionDisplay key={section.id} section={section} isDarkMode={isDarkMode}/>
+                             visibleSections.map((section: FactSection) => (
+                                <FactSectionDisplay key={section.id} section={section} isDarkMode={isDarkMode} highlightPattern={entityPattern} readingTimeSeconds={sectionReadingTimes.get(section.id)} showFraming={showFraming} />
                              ))
                          )}
                      </div>
@@ -664,10 +1857,31 @@ const SmartStorySuite: React.FC = () => {
                         <motion.div variants={itemVariants} className={`rounded-lg p-4 ${isDarkMode ? 'bg-slate-700/50 border-slate-600/50' : 'bg-gray-50/80 border-gray-200'} border`}>
                             <h3 className={`text-xs font-semibold mb-2.5 uppercase tracking-wider ${isDarkMode ? 'text-teal-400' : 'text-teal-600'}`}>Story Details</h3>
                             <div className={`text-xs space-y-1.5 ${isDarkMode ? 'text-slate-300' : 'text-gray-600'}`}>
-                                {storyData.date && storyData.date !== 'Date not specified' && ( <p><span className="font-medium">Published:</span> {storyData.date}</p> )}
-                                <p><span className="font-medium">Source:</span> {storyData.source}</p>
-                                <p><span className="font-medium">By:</span> {storyData.author || 'Not Available'}</p>
+                                {storyData.publishedAt ? (
+                                    <p title={describeDate(storyData.publishedAt)}><span className="font-medium">Published:</span> {formatPublicationDate(storyData.publishedAt, undefined, true)}</p>
+                                ) : storyData.date && storyData.date !== 'Date not specified' && ( <p><span className="font-medium">Published:</span> {storyData.date}</p> )}
+                                {storyData.modifiedAt && wasUpdated(storyData.publishedAt, storyData.modifiedAt) && (
+                                    <p title={describeDate(storyData.modifiedAt)}><span className="font-medium">Updated:</span> {formatPublicationDate(storyData.modifiedAt, undefined, true)}</p>
+                                )}
+                                <p title={sourceLabel('publisher')}><span className="font-medium">Source:</span> {storyData.source}</p>
+                                <p title={sourceLabel('authors')}><span className="font-medium">By:</span> {storyData.author || 'Not Available'}</p>
+                                {storyData.publication?.section && (
+                                    <p title={sourceLabel('section')}><span className="font-medium">Section:</span> {storyData.publication.section}</p>
+                                )}
+                                {storyData.publication && storyData.publication.keywords.length > 0 && (
+                                    <p title={sourceLabel('keywords')}><span className="font-medium">Topics:</span> {storyData.publication.keywords.slice(0, 6).join(', ')}</p>
+                                )}
+                                {storyData.inputMode && storyData.inputMode !== 'url' && (
+                                    <p><span className="font-medium">Input:</span> {storyData.inputMode === 'html' ? 'Pasted HTML' : 'Pasted text'}</p>
+                                )}
+                                {storyData.analysisPasses?.mode === 'map-reduce' && (
+                                    <p title={`${storyData.analysisPasses.calls} model calls`}>
+                                        <span className="font-medium">Analysis:</span> long article, {storyData.analysisPasses.windows} parts
+                                        {storyData.analysisPasses.failedWindows.length > 0 && ` (${storyData.analysisPasses.failedWindows.length} failed)`}
+                                    </p>
+                                )}
                             </div>
+                             {storyData.originalUrl && (
                              <a
                                 href={storyData.originalUrl}
                                 target="_blank"
@@ -683,6 +1897,7 @@ const SmartStorySuite: React.FC = () => {
                                     <path strokeLinecap="round" strokeLinejoin="round" d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
                                 </svg>
                             </a>
+                             )}
 
                              {/* --- SPICE Score Display --- */}
                              {storyData.spiceScore && (
@@ -690,8 +1905,27 @@ const SmartStorySuite: React.FC = () => {
                              )}
                              {/* --- End SPICE Score Display --- */}
 
-                             {/* Similarity Score Display */}
-                             <SimilarityScoreDisplay score={storyData.similarityScore} isDarkMode={isDarkMode} />
+                             {storyData.metrics && (
+                                <TextMetricsDisplay metrics={storyData.metrics} isDarkMode={isDarkMode} />
+                             )}
+
+                             {storyData.framing && (
+                                <FramingDisplay framing={storyData.framing} isDarkMode={isDarkMode} />
+                             )}
+
+                             <ExportPanel story={storyData} isDarkMode={isDarkMode} />
+
+                             {/* Validation problems the repair retries couldn't fix */}
+                             {storyData.warnings && storyData.warnings.some(w => w.code !== 'repaired') && (
+                                <div className={`mt-4 pt-3 border-t text-xs ${isDarkMode ? 'border-slate-600/80 text-amber-300' : 'border-gray-200 text-amber-700'}`}>
+                                    <p className="font-medium mb-1">Partial analysis</p>
+                                    <ul className="list-disc list-inside space-y-0.5">
+                                        {storyData.warnings.filter(w => w.code !== 'repaired').map((warning, index) => (
+                                            <li key={`${warning.path}-${index}`}>{warning.path ? `${warning.path}: ` : ''}{warning.message}</li>
+                                        ))}
+                                    </ul>
+                                </div>
+                             )}
 
                         </motion.div>
 
@@ -702,17 +1936,19 @@ const SmartStorySuite: React.FC = () => {
                                     {storyData.imageUrl && !imageLoadError ? (
                                         <motion.button
                                             type="button"
-                                            onClick={() => storyData.imageUrl && handleImageClick(storyData.imageUrl)}
+                                            onClick={() => storyData.imageUrl && handleImageClick(storyData.primaryImage ?? { url: storyData.imageUrl, bestUrl: storyData.imageUrl, alt: null, caption: null, credit: null, width: null, height: null })}
                                             className="w-full block cursor-pointer focus:outline-none group"
                                             whileHover={{ scale: 1.02 }}
                                             whileTap={{ scale: 0.99 }}
                                             title="Click to enlarge"
                                             disabled={!storyData.imageUrl}
                                         >
-                                            <img
+                                            <ProxiedImg
                                                 key={storyData.imageUrl}
                                                 src={storyData.imageUrl}
-                                                alt={storyData.title ? `${storyData.title} - primary image` : 'Article primary image'}
+                                                alt={storyData.primaryImage?.alt ?? (storyData.title ? `${storyData.title} - primary image` : 'Article primary image')}
+                                                proxyWidth={828}
+                                                referer={storyData.originalUrl || undefined}
                                                 className="w-full h-auto object-cover block transition-transform duration-200 group-hover:scale-105"
                                                 loading="lazy"
                                                 onError={() => {
@@ -731,6 +1967,8 @@ const SmartStorySuite: React.FC = () => {
                                 <div className={`p-3 text-xs text-center ${isDarkMode ? 'text-slate-400' : 'text-gray-500'}`}>
                                     {imageLoadError
                                         ? 'Primary image could not be loaded'
+                                        : storyData.primaryImage && (storyData.primaryImage.caption || storyData.primaryImage.credit)
+                                        ? <ImageCaption image={storyData.primaryImage} className="text-left" />
                                         : storyData.imageUrl
                                         ? 'Article primary image (click to enlarge)'
                                         : ''
@@ -740,19 +1978,20 @@ const SmartStorySuite: React.FC = () => {
                         )}
 
                         {/* --- Additional Images Display --- */}
-                        {storyData.imageUrls && storyData.imageUrls.length > 0 && (
+                        {storyData.images && storyData.images.length > 0 && (
                            <motion.div variants={itemVariants} className="space-y-3">
                               <h4 className={`text-xs font-semibold uppercase tracking-wider ${isDarkMode ? 'text-teal-400' : 'text-teal-600'}`}>
                                   More Images
                               </h4>
                               <div className="grid grid-cols-2 gap-3">
-                                  {storyData.imageUrls.map((imgUrl, index) => (
+                                  {storyData.images.map((image, index) => (
                                      <AdditionalImage
-                                         key={imgUrl + '-' + index}
-                                         src={imgUrl}
+                                         key={image.url + '-' + index}
+                                         image={image}
                                          alt={`Additional article image ${index + 1}`}
+                                         referer={storyData.originalUrl || undefined}
                                          isDarkMode={isDarkMode}
-                                         onClick={() => handleImageClick(imgUrl)}
+                                         onClick={() => handleImageClick(image)}
                                      />
                                   ))}
                               </div>
@@ -775,9 +2014,11 @@ const SmartStorySuite: React.FC = () => {
 
         {/* --- Image Overlay --- */}
         <AnimatePresence>
-            {enlargedImageUrl && (
+            {enlargedImage && (
                 <ImageOverlay
-                    imageUrl={enlargedImageUrl}
+                    key={enlargedImage.url}
+                    image={enlargedImage}
+                    referer={storyData?.originalUrl || undefined}
                     onClose={closeImageOverlay}
                 />
             )}
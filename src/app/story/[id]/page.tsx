@@ -0,0 +1,14 @@
+// src/app/story/[id]/page.tsx
+// A saved story's permalink. The home page loads the story itself (it reads the id from the
+// route), so both routes share one set of views; this file adds the story's title for link previews.
+import type { Metadata } from 'next';
+import Home from '@/app/page';
+import { readSavedStory } from '@/lib/storyStore';
+
+export async function generateMetadata({ params }: { params: Promise<{ id: string }> }): Promise<Metadata> {
+    const saved = await readSavedStory((await params).id);
+    if (!saved) return { title: 'Story not found | Smart Story Analyzer' };
+    return { title: `${saved.story.title} | Smart Story Analyzer`, description: saved.story.summary };
+}
+
+export default Home;
@@ -0,0 +1,144 @@
+// src/lib/analysisCache.ts
+// Disk-backed cache for finished analyses, so re-opening the same story doesn't pay for
+// another Claude call. Entries are keyed by normalized URL and checked against a hash of
+// the freshly extracted article text, so an edited article is re-analyzed.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { StoryData } from '@/lib/types';
+
+const CACHE_VERSION = 9;
+const DEFAULT_TTL_HOURS = 24;
+
+// Query parameters that never change the article a URL points to
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|mc_cid|mc_eid|igshid|ref|ref_src|smid|cmpid|ito)$/i;
+
+export interface CachedAnalysis {
+    version: number;
+    normalizedUrl: string;
+    contentHash: string;
+    sectionTargetWords: number;
+    analysisProfile: string; // Provider, model and temperature that produced the analysis
+    cachedAt: string;
+    expiresAt: string;
+    articleText: string;
+    story: StoryData;
+}
+
+export interface CacheKey {
+    normalizedUrl: string;
+    contentHash: string;
+    sectionTargetWords: number;
+    analysisProfile: string;
+}
+
+const getCacheDir = (): string => process.env.ANALYSIS_CACHE_DIR || path.join(process.cwd(), '.cache', 'analysis');
+
+const getTtlMs = (): number => {
+    const hours = parseFloat(process.env.ANALYSIS_CACHE_TTL_HOURS || '');
+    return (Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+};
+
+const sha256 = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+const hostWithoutWww = (url: URL): string => url.hostname.toLowerCase().replace(/^www\./, '');
+
+// Lowercases scheme/host, drops fragments, default ports, tracking params and trailing
+// slashes, and sorts the remaining query so equivalent URLs share one cache entry.
+export function normalizeUrl(rawUrl: string): string {
+    const url = new URL(rawUrl);
+    url.hash = '';
+    url.hostname = url.hostname.toLowerCase();
+    if ((url.protocol === 'http:' && url.port === '80') || (url.protocol === 'https:' && url.port === '443')) {
+        url.port = '';
+    }
+    const params = [...url.searchParams.entries()]
+        .filter(([key]) => !TRACKING_PARAMS.test(key))
+        .sort(([a], [b]) => a.localeCompare(b));
+    url.search = new URLSearchParams(params).toString();
+    if (url.pathname.length > 1) {
+        url.pathname = url.pathname.replace(/\/+$/, '');
+    }
+    return url.toString();
+}
+
+// Prefers the page's canonical URL, but only when it points at the same site; some
+// publishers set every article's canonical to their homepage.
+export function resolveCacheUrl(requestedUrl: string, canonicalUrl: string | null): string {
+    if (canonicalUrl) {
+        try {
+            const canonical = new URL(canonicalUrl);
+            const canonicalPath = canonical.pathname.replace(/\/+$/, '');
+            if (hostWithoutWww(canonical) === hostWithoutWww(new URL(requestedUrl)) && canonicalPath.length > 0) {
+                return normalizeUrl(canonicalUrl);
+            }
+        } catch {
+            // Fall back to the requested URL below
+        }
+    }
+    return normalizeUrl(requestedUrl);
+}
+
+export function hashArticleText(articleText: string): string {
+    return sha256(articleText.replace(/\s+/g, ' ').trim());
+}
+
+const entryPath = (normalizedUrl: string): string => path.join(getCacheDir(), `${sha256(normalizedUrl)}.json`);
+
+// Returns the cached analysis if one exists for this URL, the article text hasn't changed and it hasn't expired
+export async function readCachedAnalysis(key: CacheKey): Promise<CachedAnalysis | null> {
+    let entry: CachedAnalysis;
+    try {
+        entry = JSON.parse(await fs.readFile(entryPath(key.normalizedUrl), 'utf8'));
+    } catch (readError: unknown) {
+        if ((readError as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+            console.warn(`DEBUG: Could not read analysis cache entry for ${key.normalizedUrl}:`, readError);
+        }
+        return null;
+    }
+
+    if (entry.version !== CACHE_VERSION || entry.normalizedUrl !== key.normalizedUrl) {
+        return null;
+    }
+    if (entry.contentHash !== key.contentHash) {
+        console.log(`DEBUG: Cache entry for ${key.normalizedUrl} is stale (article text changed).`);
+        return null;
+    }
+    if (entry.sectionTargetWords !== key.sectionTargetWords) {
+        console.log(`DEBUG: Cache entry for ${key.normalizedUrl} was chunked at ${entry.sectionTargetWords} words, not ${key.sectionTargetWords}.`);
+        return null;
+    }
+    if (entry.analysisProfile !== key.analysisProfile) {
+        console.log(`DEBUG: Cache entry for ${key.normalizedUrl} came from ${entry.analysisProfile}, not ${key.analysisProfile}.`);
+        return null;
+    }
+    if (Date.parse(entry.expiresAt) <= Date.now()) {
+        console.log(`DEBUG: Cache entry for ${key.normalizedUrl} expired at ${entry.expiresAt}.`);
+        return null;
+    }
+    return entry;
+}
+
+// Stores an analysis; failures are logged but never fail the request
+export async function writeCachedAnalysis(key: CacheKey, articleText: string, story: StoryData): Promise<void> {
+    const now = Date.now();
+    const entry: CachedAnalysis = {
+        version: CACHE_VERSION,
+        ...key,
+        cachedAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + getTtlMs()).toISOString(),
+        articleText,
+        story,
+    };
+    const target = entryPath(key.normalizedUrl);
+    const tempFile = `${target}.${process.pid}.${now}.tmp`;
+    try {
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(tempFile, JSON.stringify(entry), 'utf8');
+        await fs.rename(tempFile, target);
+        console.log(`DEBUG: Cached analysis for ${key.normalizedUrl} until ${entry.expiresAt}.`);
+    } catch (writeError: unknown) {
+        console.warn(`DEBUG: Could not write analysis cache entry for ${key.normalizedUrl}:`, writeError);
+        await fs.unlink(tempFile).catch(() => {});
+    }
+}
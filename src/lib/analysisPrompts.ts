@@ -0,0 +1,355 @@
+// src/lib/analysisPrompts.ts
+// Prompts for the analysis model: the single-pass prompt, and the window (map) and reduce
+// prompts of the long-document mode. The field and rubric instructions are shared so every
+// mode asks for the same JSON. The claims, timeline, framing and article comparison prompts are at the end.
+import type { AnalysisInput, WindowAnalysis } from '@/lib/analyzeArticle';
+import { formatRubricForPrompt, SPICE_RUBRIC } from '@/lib/spiceRubric';
+import { describeStructureFeatures } from '@/lib/structureFeatures';
+import type { StoryData, StructureFeatures } from '@/lib/types';
+
+// --- System instructions (sent after the JSON rules every request shares; see analysisRequest.ts) ---
+
+export const ANALYSIS_SYSTEM_PROMPT = "Perform the SPICE analysis accurately based *only* on the provided text. For 'sectionTitles', return exactly one title per numbered section and never copy the section text.";
+export const WINDOW_SYSTEM_PROMPT = "Identify the SPICE criteria met based *only* on the provided part of the article. For 'sectionTitles', return exactly one title per numbered section and never copy the section text.";
+export const REDUCE_SYSTEM_PROMPT = "Perform the SPICE analysis accurately based *only* on the partial analyses provided.";
+
+// --- Shared prompt fragments ---
+
+const contextSpec = ({ inferredSource, fetchedTitle, scrapedDate, scrapedAuthor }: AnalysisInput, structure: StructureFeatures | null): string => {
+    // The article text has lost its markup, so the structure the rubric asks about is supplied as measured facts
+    const structureContext = structure
+        ? `\n\n--- MEASURED ARTICLE STRUCTURE (counted from the original HTML) ---\n${describeStructureFeatures(structure)}\nRubric criteria tagged [MEASURED] are scored from these counts; use them for your justifications instead of guessing from the text.`
+        : '';
+    return `Context:
+Article Source (if known): ${inferredSource}
+Article Title (if known): ${fetchedTitle}
+Article Date (if scraped): ${scrapedDate || 'Not found by scraper'}
+Article Author (if scraped): ${scrapedAuthor || 'Not found by scraper'}${structureContext}`;
+};
+
+// title, source, date, summary and highlights, as asked for in the single-pass and reduce prompts
+const articleFieldsSpec = ({ fetchedTitle, inferredSource, scrapedDate }: AnalysisInput): string => `  "title": "(string) The main title of the article. Infer from the text or use '${fetchedTitle}' if accurate.",
+  "source": "(string) The source publication or website. Use '${inferredSource}' or refine based *only* on the text.",
+  "date": "(string) The publication date *explicitly mentioned* in the article text (e.g., "April 9, 2025", "last Tuesday"). If found, use that formatted as 'Month Day, Year'. If not explicitly mentioned in the text but a date was scraped ('${scrapedDate || 'None'}'), use the scraped date string provided. Otherwise, use the string 'Date not specified'.",
+  "summary": "(string) A concise, neutral summary of the article's main points (2-4 sentences maximum).",
+  "highlights": "(array of strings) Exactly 3 key, distinct takeaways or factual highlights directly supported by the article text. If 3 distinct highlights cannot be found, provide as many as possible up to 3. Each highlight should be a concise sentence with NO MORE THAN 10 WORDS.",`;
+
+const QUOTES_FIELD_SPEC = `  "quotes": "(array of objects) The direct quotations in the text (words inside quotation marks that are attributed to someone), in order, at most 15. Each object has: 'text' (string) the quoted words copied EXACTLY from the text without the surrounding quotation marks, using '...' only where you skip words; 'speaker' (string or null) who said it, named as in the text, or null if the text doesn't say; 'role' (string or null) the speaker's role or affiliation if the text states it, otherwise null; 'section' (number) the n of the [SECTION n] the quote appears in. Use an empty array if there are no quotes. Do NOT paraphrase, merge or invent quotes.",`;
+
+const ENTITIES_FIELD_SPEC = `  "entities": "(array of objects) The people, organizations, places and dates named in the text, at most 30, most important first. Each object has: 'name' (string) the fullest form the text uses, e.g. 'Jane Doe'; 'type' (string) one of 'person', 'organization', 'place' or 'date'; 'aliases' (array of strings) other names the text uses for the same entity, copied exactly (e.g. 'Doe', 'Ms. Doe'), but not descriptions like 'the mayor'. For dates, copy the wording used in the text (e.g. 'March 3, 2024', 'Tuesday'). Use an empty array if there are none.",`;
+
+const SPICE_FIELD_SPEC = `  "spiceScore": "(object or null) <<< NEW: Analyze the article text according to the SPICE rubric below and provide the scores. If the article is too short or lacks substance for a meaningful score, return null for this entire 'spiceScore' field. >>>
+    {
+      "s": (number) Scannability score (1-5),
+      "p": (number) Personalization score (1-5),
+      "i": (number) Interactivity score (1-5),
+      "c": (number) Curation score (1-5),
+      "e": (number) Emotion score (1-5),
+      "total": (number) Sum of s, p, i, c, e (MUST be between 5 and 25 if not null),
+      "justifications": {
+        "scannability": "(string) Brief justification for the Scannability score.",
+        "personalization": "(string) Brief justification for the Personalization score.",
+        "interactivity": "(string) Brief justification for the Interactivity score.",
+        "curation": "(string) Brief justification for the Curation score.",
+        "emotion": "(string) Brief justification for the Emotion score."
+      },
+      "criteriaMet": {
+        "scannability": (array of numbers) The numbers of the Scannability criteria below that the article meets, e.g. [1, 3],
+        "personalization": (array of numbers) Same, for Personalization,
+        "interactivity": (array of numbers) Same, for Interactivity,
+        "curation": (array of numbers) Same, for Curation,
+        "emotion": (array of numbers) Same, for Emotion
+      }
+    }"`;
+
+const spiceRubricSpec = (structure: StructureFeatures | null): string => `--- SPICE Scoring Rubric (Apply to the Article Text) ---
+Assign a score from 1 to 5 for each category (S, P, I, C, E). Start with a base score of 1 for each category and award +1 point for *each distinct feature* present, up to a maximum of 5 points per category. Base your assessment ONLY on the provided article text. Provide brief justification strings, and list the numbers of the criteria you awarded points for in 'criteriaMet'.
+
+${formatRubricForPrompt(structure !== null)}
+
+Calculate the 'total' score as the sum of the individual S, P, I, C, E scores (should be between 5 and 25). Provide all scores as numbers. Provide justifications as concise strings.
+
+--- End SPICE Rubric ---`;
+
+const JSON_RULES = `Critical JSON Rules & Escaping Guide:
+1.  **OUTPUT JSON ONLY:** Start with '{', end with '}', nothing else.
+2.  **VALID SYNTAX:** Use double quotes for all keys and string values. Correct commas (no trailing commas). Match brackets/braces.
+3.  **MANDATORY ESCAPING inside STRING values:** Double Quote (") -> \\\\", Backslash (\\\\) -> \\\\\\\\, Newline -> \\\\n, etc.
+4.  **DO NOT ESCAPE:** Single quotes ('). Leave them as is.
+5.  **STICK TO STRUCTURE:** Use the exact field names and types specified.`;
+
+const TASK_SPEC = `Your task is to act as a meticulous JSON generation service. Based *only* on the text provided above, respond ONLY with a single, valid JSON object adhering strictly to the structure below. DO NOT include any introductory text, explanations, apologies, markdown formatting (like \`\`\`json), or closing remarks before or after the JSON object.`;
+
+// Numbers chunks as [SECTION n], counting from `firstNumber`
+const numberSections = (chunks: string[], firstNumber: number): string =>
+    chunks.map((chunk, index) => `[SECTION ${firstNumber + index}]\n${chunk}`).join('\n\n');
+
+// --- Single pass ---
+
+// Builds the analysis prompt, numbering the server-side chunks so the model can title each one
+export function buildAnalysisPrompt(input: AnalysisInput): { prompt: string; sectionCount: number } {
+    const { chunks, structure } = input;
+    const maxChars = 150000; // Claude's context window is larger, but keep this for cost/performance if needed
+    let promptChars = 0;
+    let promptSectionCount = 0;
+    for (const chunk of chunks) {
+        if (promptChars + chunk.length > maxChars && promptSectionCount > 0) break;
+        promptChars += chunk.length;
+        promptSectionCount++;
+    }
+    const sectionedArticleText = numberSections(chunks.slice(0, promptSectionCount), 1)
+        + (promptSectionCount < chunks.length ? "\n[... remaining sections truncated ...]" : '');
+
+    const prompt = `Analyze the following article text and provide a structured summary AND a SPICE score IN VALID JSON format ONLY.
+
+${contextSpec(input, structure)}
+
+--- ARTICLE TEXT START (pre-split into ${promptSectionCount} numbered sections) ---
+${sectionedArticleText}
+--- ARTICLE TEXT END ---
+
+${TASK_SPEC}
+
+JSON Structure:
+{
+${articleFieldsSpec(input)}
+  "sectionTitles": "(array of strings) Exactly ${promptSectionCount} titles, one for each numbered [SECTION n] of the article text, in order. Each title is a concise, descriptive heading for the main idea of *that specific section* (e.g. 'Project Inception'). If a topic spans multiple sections, use sequential titles like 'Market Analysis - Part 1', 'Market Analysis - Part 2'. Do NOT use generic titles like 'Section 1' or 'Chunk 2'. Do NOT repeat or rewrite the section text itself.",
+${QUOTES_FIELD_SPEC}
+${ENTITIES_FIELD_SPEC}
+${SPICE_FIELD_SPEC}
+}
+
+${spiceRubricSpec(structure)}
+
+${JSON_RULES}
+6.  **BASE ON TEXT ONLY:** Do not add external information. Follow instructions for missing data. If SPICE scoring is not feasible, return null for 'spiceScore'.`;
+    return { prompt, sectionCount: promptSectionCount };
+}
+
+// --- Long-document mode ---
+
+export interface PromptWindow {
+    index: number;        // 0-based window number
+    firstSection: number; // 1-based number of the window's first section
+    chunks: string[];
+}
+
+// Map step: titles, summary, candidate highlights, quotes, entities and SPICE criteria for one window.
+// Structure facts are whole-article, so they are left to the reduce step.
+export function buildWindowPrompt(input: AnalysisInput, window: PromptWindow, windowCount: number): string {
+    const sectionCount = window.chunks.length;
+    const lastSection = window.firstSection + sectionCount - 1;
+    return `This is part ${window.index + 1} of ${windowCount} of a long article that is being analyzed in parts. Analyze ONLY this part and return its partial analysis IN VALID JSON format ONLY.
+
+${contextSpec(input, null)}
+
+--- ARTICLE PART ${window.index + 1} OF ${windowCount} START (sections ${window.firstSection}-${lastSection}) ---
+${numberSections(window.chunks, window.firstSection)}
+--- ARTICLE PART ${window.index + 1} OF ${windowCount} END ---
+
+${TASK_SPEC}
+
+JSON Structure:
+{
+  "sectionTitles": "(array of strings) Exactly ${sectionCount} titles, one for each numbered [SECTION n] in this part, in order. Each title is a concise, descriptive heading for the main idea of *that specific section* (e.g. 'Project Inception'). If a topic spans multiple sections, use sequential titles like 'Market Analysis - Part 1', 'Market Analysis - Part 2'. Do NOT use generic titles like 'Section 1' or 'Chunk 2'. Do NOT repeat or rewrite the section text itself.",
+  "summary": "(string) A concise, neutral summary of this part's main points (2-3 sentences maximum).",
+  "highlights": "(array of strings) Up to 3 key, distinct takeaways or factual highlights directly supported by this part. Each highlight should be a concise sentence with NO MORE THAN 10 WORDS.",
+${QUOTES_FIELD_SPEC}
+${ENTITIES_FIELD_SPEC}
+  "criteriaMet": {
+    "scannability": (array of numbers) The numbers of the Scannability criteria below that this part meets, e.g. [1, 3],
+    "personalization": (array of numbers) Same, for Personalization,
+    "interactivity": (array of numbers) Same, for Interactivity,
+    "curation": (array of numbers) Same, for Curation,
+    "emotion": (array of numbers) Same, for Emotion
+  }
+}
+
+--- SPICE Rubric Criteria (only identify which are met in this part; do not score) ---
+${formatRubricForPrompt()}
+--- End SPICE Rubric Criteria ---
+
+${JSON_RULES}
+6.  **BASE ON TEXT ONLY:** Do not add external information.`;
+}
+
+// Renders one window's result for the reduce prompt
+const describeWindow = (window: PromptWindow, result: WindowAnalysis | null): string => {
+    const range = `sections ${window.firstSection}-${window.firstSection + window.chunks.length - 1}`;
+    if (!result) {
+        return `[PART ${window.index + 1}] (${range}): analysis failed; no information for this part.`;
+    }
+    const criteria = SPICE_RUBRIC.map(dimension => {
+        const met = result.criteriaMet?.[dimension.name];
+        return `${dimension.label} ${met && met.length > 0 ? met.join(', ') : 'none'}`;
+    }).join('; ');
+    return `[PART ${window.index + 1}] (${range})
+Summary: ${result.summary}
+Candidate highlights:${result.highlights.map(highlight => `\n- ${highlight}`).join('') || ' none'}
+SPICE criteria met: ${result.criteriaMet ? criteria : 'not reported'}`;
+};
+
+// Reduce step: the final summary, top highlights and overall SPICE score from the window results
+// (quotes and entities are taken from the windows as they are)
+export function buildReducePrompt(input: AnalysisInput, windows: PromptWindow[], results: Array<WindowAnalysis | null>): string {
+    return `A long article was analyzed in ${windows.length} consecutive parts. Using ONLY the partial analyses below, write the final analysis of the whole article and its SPICE score IN VALID JSON format ONLY.
+
+${contextSpec(input, input.structure)}
+
+--- PARTIAL ANALYSES START ---
+${windows.map((window, index) => describeWindow(window, results[index])).join('\n\n')}
+--- PARTIAL ANALYSES END ---
+
+${TASK_SPEC}
+
+JSON Structure:
+{
+${articleFieldsSpec(input)}
+${SPICE_FIELD_SPEC}
+}
+
+A rubric criterion is met by the article if any part meets it. Pick the 3 most important highlights across all parts.
+
+${spiceRubricSpec(input.structure)}
+
+${JSON_RULES}
+6.  **BASE ON THE PARTIAL ANALYSES ONLY:** Do not add external information. Follow instructions for missing data. If SPICE scoring is not feasible, return null for 'spiceScore'.`;
+}
+
+// --- Claims (a separate request, so the main response stays within the output limit) ---
+
+// Checkable factual claims in one window of the article (the whole article when it fits in one)
+export function buildClaimsPrompt(input: AnalysisInput, window: PromptWindow, windowCount: number): string {
+    const lastSection = window.firstSection + window.chunks.length - 1;
+    const part = windowCount > 1 ? ` (part ${window.index + 1} of ${windowCount}, sections ${window.firstSection}-${lastSection})` : '';
+    return `List the checkable factual claims in the following article text${part} for a fact-checker, IN VALID JSON format ONLY.
+
+${contextSpec(input, null)}
+
+--- ARTICLE TEXT START ---
+${numberSections(window.chunks, window.firstSection)}
+--- ARTICLE TEXT END ---
+
+${TASK_SPEC}
+
+JSON Structure:
+{
+  "claims": "(array of objects) The factual claims a fact-checker could verify, in order, at most 25, most significant first if there are more. Include numbers (counts, amounts, dates of events), statistics (rates, percentages, rankings, comparisons), attributed statements (what a named person or body said or found) and causal claims (X caused, led to or will result in Y). Leave out opinions, predictions nobody is credited with, and background that isn't checkable. Each object has: 'claim' (string) the claim in one short, self-contained sentence; 'type' (string) one of 'numeric', 'statistic', 'attribution' or 'causal'; 'sentence' (string) the sentence from the text that makes the claim, copied EXACTLY; 'section' (number) the n of the [SECTION n] the sentence is in; 'sourceCited' (boolean) true if the text says where the claim comes from (a person, organization, study, document or dataset); 'citedSource' (string or null) that source as named in the text, or null. Use an empty array if there are no checkable claims."
+}
+
+${JSON_RULES}
+6.  **BASE ON TEXT ONLY:** Do not add external information, and do not judge whether claims are true.`;
+}
+
+// --- Timeline (a separate request, like claims; see timeline.ts) ---
+
+// Dated events in one window of the article. Relative dates are resolved against the article date.
+export function buildTimelinePrompt(input: AnalysisInput, window: PromptWindow, windowCount: number): string {
+    const lastSection = window.firstSection + window.chunks.length - 1;
+    const part = windowCount > 1 ? ` (part ${window.index + 1} of ${windowCount}, sections ${window.firstSection}-${lastSection})` : '';
+    return `List the dated events described in the following article text${part}, for a timeline, IN VALID JSON format ONLY.
+
+${contextSpec(input, null)}
+
+--- ARTICLE TEXT START ---
+${numberSections(window.chunks, window.firstSection)}
+--- ARTICLE TEXT END ---
+
+${TASK_SPEC}
+
+JSON Structure:
+{
+  "events": "(array of objects) The events the text gives a date or period for, past or planned, in order, at most 20, most significant first if there are more. Include relative dates ('yesterday', 'last Tuesday', 'two years ago') as well as explicit ones. Leave out events with no date at all. Each object has: 'date' (string) the date or period as the text words it, copied EXACTLY; 'start' (string or null) when it happened or starts, as YYYY-MM-DD, or YYYY-MM or YYYY when the text is no more precise; resolve relative dates against the Article Date given above, and use null if the date cannot be worked out; 'end' (string or null) the last day of a range ('from 2019 to 2021', 'last week') in the same form, or null for a single date; 'description' (string) what happened, in one short, neutral sentence; 'sentence' (string) the sentence from the text that dates the event, copied EXACTLY; 'section' (number) the n of the [SECTION n] the sentence is in. Use an empty array if there are no dated events."
+}
+
+${JSON_RULES}
+6.  **BASE ON TEXT ONLY:** Do not add events or dates from outside the text.`;
+}
+
+// --- Framing and tone (the optional framing pass; see framing.ts) ---
+
+export function buildFramingPrompt(input: AnalysisInput, window: PromptWindow, windowCount: number): string {
+    const lastSection = window.firstSection + window.chunks.length - 1;
+    const part = windowCount > 1 ? ` (part ${window.index + 1} of ${windowCount}, sections ${window.firstSection}-${lastSection})` : '';
+    return `Label how each section of the following article text${part} is written, for a standards editor, IN VALID JSON format ONLY.
+
+${contextSpec(input, null)}
+
+--- ARTICLE TEXT START ---
+${numberSections(window.chunks, window.firstSection)}
+--- ARTICLE TEXT END ---
+
+${TASK_SPEC}
+
+JSON Structure:
+{
+  "sections": "(array of objects) Exactly one object per numbered section (sections ${window.firstSection} to ${lastSection}), in order. Each object has: 'section' (number) the n of the [SECTION n]; 'sentiment' (string) one of 'positive', 'negative', 'neutral' or 'mixed', for how the section presents its subject; 'tone' (string) 'neutral' for straight reporting, 'opinion' where the writer gives their own views or judgements, 'advocacy' where it argues for a side or urges action; 'kind' (string) 'fact' if the section mainly reports what happened or was said, 'commentary' if it mainly interprets, analyzes or argues; 'loadedLanguage' (array of objects, at most 3) words or short phrases in the writer's own words that carry judgement beyond the facts (e.g. 'slammed', 'regime', 'so-called'), each with 'phrase' (string) copied EXACTLY from the section and 'reason' (string, at most 8 words) why it is loaded. Words inside direct quotations belong to the speaker: leave them out. Use an empty array if the section has none.",
+  "summary": "(string) How ${windowCount > 1 ? 'this part of ' : ''}the article frames the story, in 2-3 neutral sentences: what it leads with and emphasizes, whose perspective dominates, and what context it gives or leaves out."
+}
+
+${JSON_RULES}
+6.  **BASE ON TEXT ONLY:** Describe how the text is written. Do not add external information, and do not judge whether it is true.`;
+}
+
+// Combines the framing summaries of a long article's parts into one
+export function buildFramingSummaryPrompt(input: AnalysisInput, summaries: string[]): string {
+    return `The following describe how each part of one article frames its story. Combine them into one description of the whole article, IN VALID JSON format ONLY.
+
+${contextSpec(input, null)}
+
+--- PART DESCRIPTIONS START ---
+${summaries.map((summary, index) => `[PART ${index + 1}] ${summary}`).join('\n\n')}
+--- PART DESCRIPTIONS END ---
+
+${TASK_SPEC}
+
+JSON Structure:
+{
+  "summary": "(string) How the article as a whole frames the story, in 2-4 neutral sentences: what it leads with and emphasizes, whose perspective dominates, and what context it gives or leaves out."
+}
+
+${JSON_RULES}`;
+}
+
+// --- Comparison of two articles (see compareArticles.ts) ---
+
+// An article's sections as [A n] or [B n], up to `maxChars` of section text
+const describeComparedArticle = (label: 'A' | 'B', story: StoryData, maxChars: number): string => {
+    const parts: string[] = [];
+    let chars = 0;
+    for (const [index, section] of story.factSections.entries()) {
+        if (chars + section.content.length > maxChars && parts.length > 0) {
+            parts.push(`[... ${story.factSections.length - index} more sections not shown]`);
+            break;
+        }
+        chars += section.content.length;
+        parts.push(`[${label} ${index + 1}] ${section.title}\n${section.content}`);
+    }
+    return `--- ARTICLE ${label} START ---
+Title: ${story.title}
+Source: ${story.source}
+
+${parts.join('\n\n')}
+--- ARTICLE ${label} END ---`;
+};
+
+export function buildComparisonPrompt(left: StoryData, right: StoryData, maxCharsPerArticle: number): string {
+    return `Compare how the following two articles cover the same story, IN VALID JSON format ONLY.
+
+${describeComparedArticle('A', left, maxCharsPerArticle)}
+
+${describeComparedArticle('B', right, maxCharsPerArticle)}
+
+${TASK_SPEC}
+
+JSON Structure:
+{
+  "sharedFacts": "(array of objects) Facts both articles report, at most 12, most important first. A fact is shared when both report the same thing, even in different words or detail. Each object has: 'fact' (string) the fact in one short, neutral sentence; 'sectionA' (number) the n of the [A n] section that states it; 'sectionB' (number) the n of the [B n] section that states it.",
+  "onlyInA": "(array of objects) Significant facts only Article A reports, at most 10. Each object has: 'fact' (string) one short, neutral sentence; 'section' (number) the n of the [A n] section that states it. When the articles disagree on a detail (a number, a date, who did what), list each version under its own article.",
+  "onlyInB": "(array of objects) Significant facts only Article B reports, at most 10, in the same form as onlyInA, with 'section' the n of the [B n] section.",
+  "framing": "(array of objects) The main differences in how the two articles frame the story, at most 6: what each leads with or emphasizes, whose perspective dominates, word choices that carry judgement, tone, and context one gives and the other leaves out. Each object has: 'aspect' (string) a few words naming it; 'a' (string) how Article A handles it, in one sentence; 'b' (string) how Article B handles it, in one sentence. Use an empty array if they frame the story the same way."
+}
+
+${JSON_RULES}
+6.  **BASE ON TEXT ONLY:** Compare only what the two texts say. Do not add external information, and do not judge which article is right.`;
+}
@@ -0,0 +1,108 @@
+// src/lib/analysisProvider.ts
+// The LLM behind the analysis step. `analyzeArticle` builds the prompt and validates the answer;
+// a provider only turns a system prompt and message list into text. Selected with
+// ANALYSIS_PROVIDER: `anthropic` (default), `openai` (any OpenAI-compatible server) or `fixture`
+// (records/replays responses on disk, for offline runs).
+import { createAnthropicProvider } from '@/lib/anthropicProvider';
+import { createFixtureProvider } from '@/lib/fixtureProvider';
+import { createOpenAiProvider } from '@/lib/openAiProvider';
+import { PipelineError } from '@/lib/errors';
+
+// --- Interfaces ---
+
+export type ProviderName = 'anthropic' | 'openai' | 'fixture';
+
+export interface AnalysisMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+export interface CompletionRequest {
+    system: string;
+    messages: AnalysisMessage[];
+    maxTokens: number;
+}
+
+export interface CompletionOptions {
+    onText?: (delta: string) => void; // Called with each chunk of text as it streams in
+    signal?: AbortSignal;
+}
+
+export interface Completion {
+    text: string;
+    truncated: boolean; // Stopped at maxTokens rather than finishing
+    outputTokens: number | null;
+}
+
+export interface AnalysisProvider {
+    name: ProviderName;
+    model: string;
+    temperature: number;
+    complete(request: CompletionRequest, options?: CompletionOptions): Promise<Completion>;
+}
+
+// Resolved model and temperature for one request
+export interface ProviderSettings {
+    model?: string; // Falls back to ANALYSIS_MODEL, then the provider's default
+    temperature: number;
+}
+
+const PROVIDER_NAMES: ProviderName[] = ['anthropic', 'openai', 'fixture'];
+const DEFAULT_TEMPERATURE = 0.1;
+const MODEL_NAME_PATTERN = /^[\w.:/@-]{1,100}$/;
+
+// Reads a provider name from an env var, rejecting typos instead of silently falling back
+export function readProviderName(envVar: string, fallback: ProviderName): ProviderName {
+    const configured = (process.env[envVar] || '').trim().toLowerCase();
+    if (!configured) return fallback;
+    if (!PROVIDER_NAMES.includes(configured as ProviderName)) {
+        throw new Error(`Server configuration error: ${envVar} must be one of ${PROVIDER_NAMES.join(', ')} (got "${configured}").`);
+    }
+    return configured as ProviderName;
+}
+
+// Validates per-request `model` / `temperature` overrides and fills in the env defaults.
+// When ANALYSIS_ALLOWED_MODELS is set (comma-separated), requested models must be on that list.
+export function resolveProviderSettings(overrides: { model?: unknown; temperature?: unknown } = {}): ProviderSettings {
+    let model = process.env.ANALYSIS_MODEL || undefined;
+    if (overrides.model !== undefined && overrides.model !== null && overrides.model !== '') {
+        if (typeof overrides.model !== 'string' || !MODEL_NAME_PATTERN.test(overrides.model)) {
+            throw new PipelineError('model must be a model name string', 400);
+        }
+        const allowed = (process.env.ANALYSIS_ALLOWED_MODELS || '').split(',').map(name => name.trim()).filter(Boolean);
+        if (allowed.length > 0 && !allowed.includes(overrides.model)) {
+            throw new PipelineError(`Model "${overrides.model}" is not allowed. Allowed models: ${allowed.join(', ')}`, 400);
+        }
+        model = overrides.model;
+    }
+
+    const envTemperature = parseFloat(process.env.ANALYSIS_TEMPERATURE || '');
+    let temperature = Number.isFinite(envTemperature) ? Math.min(1, Math.max(0, envTemperature)) : DEFAULT_TEMPERATURE;
+    if (overrides.temperature !== undefined && overrides.temperature !== null && overrides.temperature !== '') {
+        const requested = typeof overrides.temperature === 'number' ? overrides.temperature : parseFloat(String(overrides.temperature));
+        if (!Number.isFinite(requested) || requested < 0 || requested > 1) {
+            throw new PipelineError('temperature must be a number from 0 to 1', 400);
+        }
+        temperature = requested;
+    }
+
+    return { model, temperature };
+}
+
+// Builds a provider of the given kind; throws if its configuration (e.g. an API key) is missing
+export function createProvider(name: ProviderName, settings: ProviderSettings): AnalysisProvider {
+    switch (name) {
+        case 'openai': return createOpenAiProvider(settings);
+        case 'fixture': return createFixtureProvider(settings);
+        default: return createAnthropicProvider(settings);
+    }
+}
+
+// Provider configured by ANALYSIS_PROVIDER, with optional per-request overrides
+export function getAnalysisProvider(overrides: { model?: unknown; temperature?: unknown } = {}): AnalysisProvider {
+    return createProvider(readProviderName('ANALYSIS_PROVIDER', 'anthropic'), resolveProviderSettings(overrides));
+}
+
+// Identifies the provider, model and temperature an analysis came from (part of the cache key)
+export const describeProvider = (provider: AnalysisProvider): string =>
+    `${provider.name}:${provider.model}@${provider.temperature}`;
@@ -0,0 +1,183 @@
+// src/lib/analysisRequest.ts
+// One validated JSON request to the analysis provider: sends the prompt, parses the reply,
+// checks it with a schema validator and, when it doesn't validate, sends the problems back
+// for a bounded number of repair round-trips.
+import { formatIssuesForRepair, toAnalysisWarnings, type ValidationIssue, type ValidationResult } from '@/lib/analysisSchema';
+import type { AnalysisMessage, AnalysisProvider } from '@/lib/analysisProvider';
+import type { AnalysisWarning } from '@/lib/types';
+
+// Shared by every request; a request's own instructions (ValidatedRequestOptions.system) follow it
+const JSON_SYSTEM_PROMPT = "You are an expert data extraction and analysis tool. Your sole purpose is to return valid, correctly formatted JSON based precisely on the user's instructions and the provided text. You output ONLY the JSON object requested, nothing else. Ensure all special characters within JSON string values are properly escaped according to JSON specification.";
+
+// Helper function to extract JSON from Claude's response
+function extractJson(str: string): string {
+    // Remove markdown code blocks if present
+    const jsonMatch = str.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+    if (jsonMatch) {
+        return jsonMatch[1].trim();
+    }
+    return str.trim();
+}
+
+// Helper to read a (possibly still streaming) string field out of incomplete JSON text
+function readPartialStringField(json: string, field: string): { text: string; complete: boolean } | null {
+    const match = json.match(new RegExp(`"${field}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)(")?`));
+    if (!match) return null;
+    let raw = match[1];
+    // Drop a trailing escape sequence that hasn't fully arrived yet
+    raw = raw.replace(/\\(u[0-9a-fA-F]{0,3})?$/, '');
+    let text = raw;
+    try {
+        text = JSON.parse(`"${raw}"`);
+    } catch {
+        // Keep the raw text; the final parse will produce the properly unescaped value
+    }
+    return { text, complete: match[2] === '"' };
+}
+
+// Repair round-trips allowed after the first response (ANALYSIS_MAX_REPAIRS, 0-3)
+const getMaxRepairs = (): number => {
+    const configured = parseInt(process.env.ANALYSIS_MAX_REPAIRS || '', 10);
+    return Number.isFinite(configured) ? Math.min(3, Math.max(0, configured)) : 2;
+};
+
+// Sends one request and returns the raw text. The summary is surfaced through
+// onPartialSummary while the response is still streaming.
+async function requestAnalysis(
+    provider: AnalysisProvider,
+    system: string,
+    messages: AnalysisMessage[],
+    onPartialSummary: ((text: string, complete: boolean) => void) | undefined,
+    signal?: AbortSignal
+): Promise<{ text: string; truncated: boolean }> {
+    let onText: ((delta: string) => void) | undefined;
+    if (onPartialSummary) {
+        let streamedText = '';
+        let lastSummary = '';
+        let summaryComplete = false;
+        onText = (delta) => {
+            if (summaryComplete) return;
+            streamedText += delta;
+            const partial = readPartialStringField(streamedText, 'summary');
+            if (partial && (partial.text !== lastSummary || partial.complete)) {
+                lastSummary = partial.text;
+                summaryComplete = partial.complete;
+                onPartialSummary(partial.text, partial.complete);
+            }
+        };
+    }
+
+    const { text, truncated } = await provider.complete({ system, messages, maxTokens: 4000 }, { onText, signal });
+    return { text, truncated };
+}
+
+// Parses the model's text as JSON, reporting a parse failure as a root-level issue
+function parseResponse(rawJsonString: string, truncated: boolean, articleUrl: string): { value: unknown } | { issue: ValidationIssue } {
+    const extractedJsonString = extractJson(rawJsonString);
+    try {
+        return { value: JSON.parse(extractedJsonString) };
+    } catch (parseError: unknown) {
+        console.error(`Error parsing Claude JSON response for ${articleUrl}:`, parseError);
+        console.error('--- Raw Claude response string ---');
+        console.error(rawJsonString);
+        console.error('--- End Logs ---');
+        const detail = parseError instanceof Error ? parseError.message : 'JSON parse error';
+        return {
+            issue: {
+                path: '',
+                message: truncated
+                    ? `the response was cut off at the output token limit before the JSON object was complete (${detail})`
+                    : `the response was not valid JSON (${detail})`,
+            },
+        };
+    }
+}
+
+// Follow-up message asking the model to fix the problems found in its last answer
+function buildRepairPrompt(issues: ValidationIssue[], truncated: boolean): string {
+    return `Your previous response could not be used as-is. These problems were found:
+${formatIssuesForRepair(issues)}
+
+Return the complete, corrected JSON object for the original task, with the same structure and rules. Output ONLY the JSON object.${truncated ? ' Keep highlights and justifications brief so the entire object fits in the response.' : ''}`;
+}
+
+export interface ValidatedResponse<T> {
+    data: T;
+    issues: ValidationIssue[]; // Problems left after the last repair attempt (empty when it validated)
+    calls: number;             // Model calls made, including repairs
+    truncated: boolean;        // The response used was cut off at the token limit
+}
+
+export interface ValidatedRequestOptions {
+    label: string; // For logs, e.g. the article URL and window
+    system?: string; // Task-specific system instructions, added after the shared JSON ones
+    onPartialSummary?: (text: string, complete: boolean) => void;
+    signal?: AbortSignal;
+}
+
+// Runs the request/validate/repair loop. Returns the best (fewest-issue) response once it
+// validates or the repairs run out; throws only if no attempt produced parseable JSON.
+export async function requestValidatedJson<T>(
+    provider: AnalysisProvider,
+    prompt: string,
+    validate: (value: unknown) => ValidationResult<T>,
+    { label, system, onPartialSummary, signal }: ValidatedRequestOptions
+): Promise<ValidatedResponse<T>> {
+    const maxRepairs = getMaxRepairs();
+    const systemPrompt = system ? `${JSON_SYSTEM_PROMPT} ${system}` : JSON_SYSTEM_PROMPT;
+    const messages: AnalysisMessage[] = [{ role: 'user', content: prompt }];
+
+    let best: ValidationResult<T> | null = null;
+    let lastIssues: ValidationIssue[] = [];
+    let lastTruncated = false;
+
+    for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+        // Only the first attempt streams its summary; repairs replace the whole object
+        const { text, truncated } = await requestAnalysis(provider, systemPrompt, messages, attempt === 1 ? onPartialSummary : undefined, signal);
+        lastTruncated = truncated;
+
+        // --- Parse and validate the response ---
+        const parsed = parseResponse(text, truncated, label);
+        if ('issue' in parsed) {
+            lastIssues = [parsed.issue];
+        } else {
+            const result = validate(parsed.value);
+            lastIssues = result.issues;
+            if (!best || result.issues.length <= best.issues.length) {
+                best = result;
+            }
+        }
+
+        if (lastIssues.length === 0 && best) {
+            console.log(`Successfully parsed and validated JSON response for ${label} (attempt ${attempt}).`);
+            return { data: best.data, issues: [], calls: attempt, truncated: false };
+        }
+
+        console.warn(`DEBUG: Analysis response for ${label} failed validation (attempt ${attempt}/${maxRepairs + 1}):\n${formatIssuesForRepair(lastIssues)}`);
+        if (attempt <= maxRepairs) {
+            messages.push({ role: 'assistant', content: text });
+            messages.push({ role: 'user', content: buildRepairPrompt(lastIssues, truncated) });
+        }
+    }
+
+    if (!best) {
+        throw new Error(`Analysis service response was not valid JSON. ${lastIssues[0]?.message ?? ''}`.trim());
+    }
+    console.warn(`DEBUG: Using partial analysis for ${label} with ${best.issues.length} validation issue(s).`);
+    return { data: best.data, issues: best.issues, calls: maxRepairs + 1, truncated: lastTruncated };
+}
+
+// Warnings for a validated response; `pathPrefix` places window issues under e.g. windows[2]
+export function toResponseWarnings(response: ValidatedResponse<unknown>, pathPrefix = ''): AnalysisWarning[] {
+    const prefix = (path: string) => pathPrefix ? (path ? `${pathPrefix}.${path}` : pathPrefix) : path;
+    if (response.issues.length === 0) {
+        return response.calls > 1
+            ? [{ code: 'repaired', path: prefix(''), message: `The analysis response was repaired after ${response.calls - 1} retr${response.calls === 2 ? 'y' : 'ies'}.` }]
+            : [];
+    }
+    const warnings = toAnalysisWarnings(response.issues).map(warning => ({ ...warning, path: prefix(warning.path) }));
+    if (response.truncated) {
+        warnings.unshift({ code: 'truncated', path: prefix(''), message: 'The analysis response was cut off at the output token limit.' });
+    }
+    return warnings;
+}
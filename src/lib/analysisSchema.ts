@@ -0,0 +1,541 @@
+// src/lib/analysisSchema.ts
+// Runtime schema for the JSON the analysis model returns. Validation reports field-level
+// issues and produces a sanitized copy where every invalid part has been replaced by a safe
+// fallback, so a response with good sections but a broken SPICE block can still be used.
+import { ENTITY_TYPES } from '@/lib/entities';
+import type { AnalysisWarning, ClaimType, EntityType, SectionFraming, Sentiment, Tone } from '@/lib/types';
+import type { ExpectedClaudeResponse, ModelClaim, ModelComparedFact, ModelComparison, ModelEntity, ModelFraming, ModelQuote, ModelSectionFraming, ModelTimelineEvent, SpiceScoreClaudeResponse, WindowAnalysis } from '@/lib/analyzeArticle';
+
+export interface ValidationIssue {
+    path: string;
+    message: string;
+}
+
+export interface ValidationResult<T = ExpectedClaudeResponse> {
+    data: T;
+    issues: ValidationIssue[];
+}
+
+const SPICE_DIMENSIONS = ['s', 'p', 'i', 'c', 'e'] as const;
+const JUSTIFICATION_KEYS = ['scannability', 'personalization', 'interactivity', 'curation', 'emotion'] as const;
+const MAX_HIGHLIGHTS = 3;
+const MAX_RUBRIC_CRITERIA = 5;
+const MAX_QUOTES = 15;
+const MAX_ENTITIES = 30;
+const MAX_CLAIMS = 25;
+const MAX_TIMELINE_EVENTS = 20;
+const CLAIM_TYPES: ClaimType[] = ['numeric', 'statistic', 'attribution', 'causal'];
+const SENTIMENTS: Sentiment[] = ['positive', 'negative', 'neutral', 'mixed'];
+const TONES: Tone[] = ['neutral', 'opinion', 'advocacy'];
+const SECTION_KINDS: Array<SectionFraming['kind']> = ['fact', 'commentary'];
+const MAX_LOADED_PHRASES = 3;
+const MAX_SHARED_FACTS = 12;
+const MAX_UNIQUE_FACTS = 10;
+const MAX_FRAMING_DIFFERENCES = 6;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const describe = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+};
+
+// Validates the optional criteriaMet map: per dimension, distinct rubric criterion numbers.
+// Problems drop the map but keep the scores, since the scores don't depend on it.
+function validateCriteriaMet(value: unknown, issues: ValidationIssue[], path = 'spiceScore.criteriaMet'): SpiceScoreClaudeResponse['criteriaMet'] {
+    if (value === undefined || value === null) return undefined;
+    if (!isPlainObject(value)) {
+        issues.push({ path, message: `expected an object, got ${describe(value)}` });
+        return undefined;
+    }
+    const before = issues.length;
+    for (const key of JUSTIFICATION_KEYS) {
+        const criteria = value[key];
+        const valid = Array.isArray(criteria)
+            && criteria.every(n => typeof n === 'number' && Number.isInteger(n) && n >= 1 && n <= MAX_RUBRIC_CRITERIA)
+            && new Set(criteria).size === criteria.length;
+        if (!valid) {
+            issues.push({ path: `${path}.${key}`, message: `expected an array of distinct criterion numbers from 1 to ${MAX_RUBRIC_CRITERIA}, got ${JSON.stringify(criteria)}` });
+        }
+    }
+    if (issues.length > before) return undefined;
+    return Object.fromEntries(JUSTIFICATION_KEYS.map(key => [key, [...(value[key] as number[])].sort((a, b) => a - b)])) as SpiceScoreClaudeResponse['criteriaMet'];
+}
+
+// Validates the SPICE block. Any problem invalidates the whole block (returned as null).
+function validateSpiceScore(value: unknown, issues: ValidationIssue[]): SpiceScoreClaudeResponse | null {
+    if (value === null || value === undefined) return null;
+    if (!isPlainObject(value)) {
+        issues.push({ path: 'spiceScore', message: `expected an object or null, got ${describe(value)}` });
+        return null;
+    }
+
+    const before = issues.length;
+    for (const key of SPICE_DIMENSIONS) {
+        const score = value[key];
+        if (typeof score !== 'number' || !Number.isInteger(score) || score < 1 || score > 5) {
+            issues.push({ path: `spiceScore.${key}`, message: `expected an integer from 1 to 5, got ${JSON.stringify(score)}` });
+        }
+    }
+
+    const justifications = value.justifications;
+    if (!isPlainObject(justifications)) {
+        issues.push({ path: 'spiceScore.justifications', message: `expected an object, got ${describe(justifications)}` });
+    } else {
+        for (const key of JUSTIFICATION_KEYS) {
+            if (!isNonEmptyString(justifications[key])) {
+                issues.push({ path: `spiceScore.justifications.${key}`, message: 'expected a non-empty string' });
+            }
+        }
+    }
+    if (issues.length > before) return null;
+
+    const criteriaMet = validateCriteriaMet(value.criteriaMet, issues);
+    const spice = { ...(value as unknown as SpiceScoreClaudeResponse), criteriaMet };
+    if (!criteriaMet) delete spice.criteriaMet;
+    // The total is derived data, so a wrong or missing one is corrected here rather than sent back for repair
+    return { ...spice, total: spice.s + spice.p + spice.i + spice.c + spice.e };
+}
+
+// --- Field readers (each records its own issues) ---
+
+const readString = (root: Record<string, unknown>, key: string, issues: ValidationIssue[]): string => {
+    const field = root[key];
+    if (isNonEmptyString(field)) return field.trim();
+    issues.push({ path: key, message: `expected a non-empty string, got ${describe(field)}` });
+    return '';
+};
+
+const readHighlights = (root: Record<string, unknown>, issues: ValidationIssue[]): string[] => {
+    if (!Array.isArray(root.highlights)) {
+        issues.push({ path: 'highlights', message: `expected an array of strings, got ${describe(root.highlights)}` });
+        return [];
+    }
+    root.highlights.forEach((highlight, index) => {
+        if (!isNonEmptyString(highlight)) {
+            issues.push({ path: `highlights[${index}]`, message: 'expected a non-empty string' });
+        }
+    });
+    const highlights = root.highlights.filter(isNonEmptyString).map(h => h.trim());
+    if (highlights.length > MAX_HIGHLIGHTS) {
+        issues.push({ path: 'highlights', message: `expected at most ${MAX_HIGHLIGHTS} highlights, got ${highlights.length}` });
+        return highlights.slice(0, MAX_HIGHLIGHTS);
+    }
+    return highlights;
+};
+
+const readSectionTitles = (root: Record<string, unknown>, expectedSectionCount: number, issues: ValidationIssue[]): string[] => {
+    if (!Array.isArray(root.sectionTitles)) {
+        issues.push({ path: 'sectionTitles', message: `expected an array of strings, got ${describe(root.sectionTitles)}` });
+        return [];
+    }
+    root.sectionTitles.forEach((sectionTitle, index) => {
+        if (!isNonEmptyString(sectionTitle)) {
+            issues.push({ path: `sectionTitles[${index}]`, message: 'expected a non-empty string' });
+        }
+    });
+    if (root.sectionTitles.length !== expectedSectionCount) {
+        issues.push({ path: 'sectionTitles', message: `expected exactly ${expectedSectionCount} titles, got ${root.sectionTitles.length}` });
+    }
+    // Keep positions aligned with the chunks; blanks fall back to generated titles later
+    return root.sectionTitles.map(t => isNonEmptyString(t) ? t.trim() : '');
+};
+
+const readOptionalString = (value: unknown): string | null => isNonEmptyString(value) ? value.trim() : null;
+
+// Entries without quote text are dropped; speaker, role and section fall back to null
+const readQuotes = (root: Record<string, unknown>, issues: ValidationIssue[]): ModelQuote[] => {
+    if (!Array.isArray(root.quotes)) {
+        issues.push({ path: 'quotes', message: `expected an array of quote objects, got ${describe(root.quotes)}` });
+        return [];
+    }
+    const quotes: ModelQuote[] = [];
+    root.quotes.forEach((quote, index) => {
+        if (!isPlainObject(quote) || !isNonEmptyString(quote.text)) {
+            issues.push({ path: `quotes[${index}]`, message: 'expected an object with a non-empty "text" string' });
+            return;
+        }
+        for (const key of ['speaker', 'role'] as const) {
+            if (quote[key] !== null && quote[key] !== undefined && typeof quote[key] !== 'string') {
+                issues.push({ path: `quotes[${index}].${key}`, message: `expected a string or null, got ${describe(quote[key])}` });
+            }
+        }
+        const section = quote.section;
+        const validSection = typeof section === 'number' && Number.isInteger(section) && section >= 1;
+        if (!validSection && section !== null && section !== undefined) {
+            issues.push({ path: `quotes[${index}].section`, message: `expected a section number, got ${JSON.stringify(section)}` });
+        }
+        quotes.push({
+            text: quote.text.trim(),
+            speaker: readOptionalString(quote.speaker),
+            role: readOptionalString(quote.role),
+            section: validSection ? section : null,
+        });
+    });
+    if (quotes.length > MAX_QUOTES) {
+        issues.push({ path: 'quotes', message: `expected at most ${MAX_QUOTES} quotes, got ${quotes.length}` });
+        return quotes.slice(0, MAX_QUOTES);
+    }
+    return quotes;
+};
+
+// Entries without a name or with an unknown type are dropped; invalid aliases are ignored
+const readEntities = (root: Record<string, unknown>, issues: ValidationIssue[]): ModelEntity[] => {
+    if (!Array.isArray(root.entities)) {
+        issues.push({ path: 'entities', message: `expected an array of entity objects, got ${describe(root.entities)}` });
+        return [];
+    }
+    const entities: ModelEntity[] = [];
+    root.entities.forEach((entity, index) => {
+        if (!isPlainObject(entity) || !isNonEmptyString(entity.name)) {
+            issues.push({ path: `entities[${index}]`, message: 'expected an object with a non-empty "name" string' });
+            return;
+        }
+        if (!ENTITY_TYPES.includes(entity.type as EntityType)) {
+            issues.push({ path: `entities[${index}].type`, message: `expected one of ${ENTITY_TYPES.join(', ')}, got ${JSON.stringify(entity.type)}` });
+            return;
+        }
+        const aliases = entity.aliases ?? [];
+        if (!Array.isArray(aliases) || !aliases.every(alias => typeof alias === 'string')) {
+            issues.push({ path: `entities[${index}].aliases`, message: `expected an array of strings, got ${describe(aliases)}` });
+        }
+        entities.push({
+            name: entity.name.trim(),
+            type: entity.type as EntityType,
+            aliases: Array.isArray(aliases) ? aliases.filter(isNonEmptyString).map(alias => alias.trim()) : [],
+        });
+    });
+    if (entities.length > MAX_ENTITIES) {
+        issues.push({ path: 'entities', message: `expected at most ${MAX_ENTITIES} entities, got ${entities.length}` });
+        return entities.slice(0, MAX_ENTITIES);
+    }
+    return entities;
+};
+
+const readRoot = (value: unknown, issues: ValidationIssue[]): Record<string, unknown> => {
+    if (isPlainObject(value)) return value;
+    issues.push({ path: '', message: `expected a JSON object, got ${describe(value)}` });
+    return {};
+};
+
+// Validates a parsed model response against the expected structure. The reduce step of the
+// long-document mode has no section titles, quotes or entities to check (they come from the window passes).
+export function validateAnalysis(value: unknown, expectedSectionCount: number, options: { sectionTitles?: boolean; quotes?: boolean; entities?: boolean } = {}): ValidationResult {
+    const issues: ValidationIssue[] = [];
+    const root = readRoot(value, issues);
+
+    const title = readString(root, 'title', issues);
+    const source = readString(root, 'source', issues);
+    const date = readString(root, 'date', issues) || 'Date not specified';
+    const summary = readString(root, 'summary', issues);
+    const highlights = readHighlights(root, issues);
+    const sectionTitles = options.sectionTitles === false ? [] : readSectionTitles(root, expectedSectionCount, issues);
+    const quotes = options.quotes === false ? [] : readQuotes(root, issues);
+    const entities = options.entities === false ? [] : readEntities(root, issues);
+    const spiceScore = validateSpiceScore(root.spiceScore, issues);
+
+    return {
+        data: { title, source, date, summary, highlights, sectionTitles, quotes, entities, spiceScore },
+        issues,
+    };
+}
+
+// Validates one window's partial analysis in the long-document mode
+export function validateWindowAnalysis(value: unknown, expectedSectionCount: number): ValidationResult<WindowAnalysis> {
+    const issues: ValidationIssue[] = [];
+    const root = readRoot(value, issues);
+    if (root.criteriaMet === undefined || root.criteriaMet === null) {
+        issues.push({ path: 'criteriaMet', message: `expected an object, got ${describe(root.criteriaMet)}` });
+    }
+
+    return {
+        data: {
+            sectionTitles: readSectionTitles(root, expectedSectionCount, issues),
+            summary: readString(root, 'summary', issues),
+            highlights: readHighlights(root, issues),
+            quotes: readQuotes(root, issues),
+            entities: readEntities(root, issues),
+            criteriaMet: validateCriteriaMet(root.criteriaMet, issues, 'criteriaMet') ?? null,
+        },
+        issues,
+    };
+}
+
+// Validates the response to a claims request (see claims.ts). Entries without a claim and a
+// supporting sentence, or with an unknown type, are dropped.
+export function validateClaims(value: unknown): ValidationResult<{ claims: ModelClaim[] }> {
+    const issues: ValidationIssue[] = [];
+    const root = readRoot(value, issues);
+    if (!Array.isArray(root.claims)) {
+        issues.push({ path: 'claims', message: `expected an array of claim objects, got ${describe(root.claims)}` });
+        return { data: { claims: [] }, issues };
+    }
+
+    const claims: ModelClaim[] = [];
+    root.claims.forEach((claim, index) => {
+        if (!isPlainObject(claim) || !isNonEmptyString(claim.claim) || !isNonEmptyString(claim.sentence)) {
+            issues.push({ path: `claims[${index}]`, message: 'expected an object with non-empty "claim" and "sentence" strings' });
+            return;
+        }
+        if (!CLAIM_TYPES.includes(claim.type as ClaimType)) {
+            issues.push({ path: `claims[${index}].type`, message: `expected one of ${CLAIM_TYPES.join(', ')}, got ${JSON.stringify(claim.type)}` });
+            return;
+        }
+        if (typeof claim.sourceCited !== 'boolean') {
+            issues.push({ path: `claims[${index}].sourceCited`, message: `expected a boolean, got ${describe(claim.sourceCited)}` });
+        }
+        const section = claim.section;
+        const validSection = typeof section === 'number' && Number.isInteger(section) && section >= 1;
+        if (!validSection && section !== null && section !== undefined) {
+            issues.push({ path: `claims[${index}].section`, message: `expected a section number, got ${JSON.stringify(section)}` });
+        }
+        const citedSource = readOptionalString(claim.citedSource);
+        claims.push({
+            claim: claim.claim.trim(),
+            type: claim.type as ClaimType,
+            sentence: claim.sentence.trim(),
+            section: validSection ? section : null,
+            // A named source counts as a citation even when the flag is missing
+            sourceCited: claim.sourceCited === true || (claim.sourceCited !== false && citedSource !== null),
+            citedSource,
+        });
+    });
+    if (claims.length > MAX_CLAIMS) {
+        issues.push({ path: 'claims', message: `expected at most ${MAX_CLAIMS} claims, got ${claims.length}` });
+        return { data: { claims: claims.slice(0, MAX_CLAIMS) }, issues };
+    }
+    return { data: { claims }, issues };
+}
+
+const CALENDAR_DATE_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+
+// YYYY, YYYY-MM or YYYY-MM-DD naming a real date; anything else is reported and read as null
+const readCalendarDate = (value: unknown, path: string, issues: ValidationIssue[]): string | null => {
+    if (value === null || value === undefined || value === '') return null;
+    const match = typeof value === 'string' ? value.trim().match(CALENDAR_DATE_PATTERN) : null;
+    if (match) {
+        const [, year, month, day] = match;
+        const date = new Date(Date.UTC(Number(year), Number(month ?? 1) - 1, Number(day ?? 1)));
+        if (date.getUTCMonth() === Number(month ?? 1) - 1 && date.getUTCDate() === Number(day ?? 1)) return match[0];
+    }
+    issues.push({ path, message: `expected a date as YYYY-MM-DD, YYYY-MM or YYYY, got ${JSON.stringify(value)}` });
+    return null;
+};
+
+// Validates the response to a timeline request (see timeline.ts). Entries without a description
+// and a supporting sentence are dropped; an end before the start is cleared.
+export function validateTimeline(value: unknown): ValidationResult<{ events: ModelTimelineEvent[] }> {
+    const issues: ValidationIssue[] = [];
+    const root = readRoot(value, issues);
+    if (!Array.isArray(root.events)) {
+        issues.push({ path: 'events', message: `expected an array of event objects, got ${describe(root.events)}` });
+        return { data: { events: [] }, issues };
+    }
+
+    const events: ModelTimelineEvent[] = [];
+    root.events.forEach((event, index) => {
+        const path = `events[${index}]`;
+        if (!isPlainObject(event) || !isNonEmptyString(event.description) || !isNonEmptyString(event.sentence) || !isNonEmptyString(event.date)) {
+            issues.push({ path, message: 'expected an object with non-empty "date", "description" and "sentence" strings' });
+            return;
+        }
+        const start = readCalendarDate(event.start, `${path}.start`, issues);
+        let end = readCalendarDate(event.end, `${path}.end`, issues);
+        // Compared at the coarser of the two precisions, so "2024" can end a range starting "2024-03"
+        if (start && end && end < start.slice(0, end.length)) {
+            issues.push({ path: `${path}.end`, message: `expected an end no earlier than the start (${start}), got ${end}` });
+            end = null;
+        }
+        const section = event.section;
+        const validSection = typeof section === 'number' && Number.isInteger(section) && section >= 1;
+        if (!validSection && section !== null && section !== undefined) {
+            issues.push({ path: `${path}.section`, message: `expected a section number, got ${JSON.stringify(section)}` });
+        }
+        events.push({
+            dateText: event.date.trim(),
+            start,
+            end: end === start ? null : end,
+            description: event.description.trim(),
+            sentence: event.sentence.trim(),
+            section: validSection ? section : null,
+        });
+    });
+    if (events.length > MAX_TIMELINE_EVENTS) {
+        issues.push({ path: 'events', message: `expected at most ${MAX_TIMELINE_EVENTS} events, got ${events.length}` });
+        return { data: { events: events.slice(0, MAX_TIMELINE_EVENTS) }, issues };
+    }
+    return { data: { events }, issues };
+}
+
+// One of `allowed`, or null with an issue
+const readEnum = <T extends string>(value: unknown, allowed: readonly T[], path: string, issues: ValidationIssue[]): T | null => {
+    if (allowed.includes(value as T)) return value as T;
+    issues.push({ path, message: `expected one of ${allowed.join(', ')}, got ${JSON.stringify(value)}` });
+    return null;
+};
+
+// Loaded phrases without phrase text are dropped; a missing reason is left empty
+const readLoadedLanguage = (value: unknown, path: string, issues: ValidationIssue[]): ModelSectionFraming['loadedLanguage'] => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected an array of phrase objects, got ${describe(value)}` });
+        return [];
+    }
+    const phrases: ModelSectionFraming['loadedLanguage'] = [];
+    value.forEach((entry, index) => {
+        if (!isPlainObject(entry) || !isNonEmptyString(entry.phrase)) {
+            issues.push({ path: `${path}[${index}]`, message: 'expected an object with a non-empty "phrase" string' });
+            return;
+        }
+        phrases.push({ phrase: entry.phrase.trim(), reason: readOptionalString(entry.reason) ?? '' });
+    });
+    if (phrases.length > MAX_LOADED_PHRASES) {
+        issues.push({ path, message: `expected at most ${MAX_LOADED_PHRASES} phrases, got ${phrases.length}` });
+        return phrases.slice(0, MAX_LOADED_PHRASES);
+    }
+    return phrases;
+};
+
+// Validates one window's response to the framing pass (see framing.ts). Sections with an
+// unknown label are dropped; they are shown without framing.
+export function validateFraming(value: unknown, window: { firstSection: number; sectionCount: number }): ValidationResult<ModelFraming> {
+    const issues: ValidationIssue[] = [];
+    const root = readRoot(value, issues);
+    const summary = readString(root, 'summary', issues);
+    if (!Array.isArray(root.sections)) {
+        issues.push({ path: 'sections', message: `expected an array of section objects, got ${describe(root.sections)}` });
+        return { data: { sections: [], summary }, issues };
+    }
+
+    const lastSection = window.firstSection + window.sectionCount - 1;
+    const sections: ModelSectionFraming[] = [];
+    root.sections.forEach((entry, index) => {
+        const path = `sections[${index}]`;
+        if (!isPlainObject(entry)) {
+            issues.push({ path, message: `expected an object, got ${describe(entry)}` });
+            return;
+        }
+        const section = entry.section;
+        if (typeof section !== 'number' || !Number.isInteger(section) || section < window.firstSection || section > lastSection) {
+            issues.push({ path: `${path}.section`, message: `expected a section number from ${window.firstSection} to ${lastSection}, got ${JSON.stringify(section)}` });
+            return;
+        }
+        if (sections.some(other => other.section === section)) {
+            issues.push({ path: `${path}.section`, message: `section ${section} is labeled more than once` });
+            return;
+        }
+        const sentiment = readEnum(entry.sentiment, SENTIMENTS, `${path}.sentiment`, issues);
+        const tone = readEnum(entry.tone, TONES, `${path}.tone`, issues);
+        const kind = readEnum(entry.kind, SECTION_KINDS, `${path}.kind`, issues);
+        const loadedLanguage = readLoadedLanguage(entry.loadedLanguage, `${path}.loadedLanguage`, issues);
+        if (sentiment && tone && kind) sections.push({ section, sentiment, tone, kind, loadedLanguage });
+    });
+
+    const missing = Array.from({ length: window.sectionCount }, (_, offset) => window.firstSection + offset)
+        .filter(section => !sections.some(entry => entry.section === section));
+    if (missing.length > 0) {
+        issues.push({ path: 'sections', message: `expected one object per section ${window.firstSection}-${lastSection}; missing ${missing.join(', ')}` });
+    }
+    return { data: { sections: sections.sort((a, b) => a.section - b.section), summary }, issues };
+}
+
+// Validates the combined framing summary of a long article
+export function validateFramingSummary(value: unknown): ValidationResult<{ summary: string }> {
+    const issues: ValidationIssue[] = [];
+    const root = readRoot(value, issues);
+    return { data: { summary: readString(root, 'summary', issues) }, issues };
+}
+
+// A section number within 1..max; anything else is reported and dropped
+const readSectionNumber = (value: unknown, max: number, path: string, issues: ValidationIssue[]): number | null => {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max) return value;
+    issues.push({ path, message: `expected a section number from 1 to ${max}, got ${JSON.stringify(value)}` });
+    return null;
+};
+
+// Reads one list of compared facts. `sectionKeys` names the field holding each article's section number.
+const readComparedFacts = (
+    root: Record<string, unknown>,
+    key: string,
+    sectionKeys: { left?: string; right?: string },
+    sectionCounts: { left: number; right: number },
+    limit: number,
+    issues: ValidationIssue[]
+): ModelComparedFact[] => {
+    const entries = root[key];
+    if (!Array.isArray(entries)) {
+        issues.push({ path: key, message: `expected an array of fact objects, got ${describe(entries)}` });
+        return [];
+    }
+    const facts: ModelComparedFact[] = [];
+    entries.forEach((entry, index) => {
+        if (!isPlainObject(entry) || !isNonEmptyString(entry.fact)) {
+            issues.push({ path: `${key}[${index}]`, message: 'expected an object with a non-empty "fact" string' });
+            return;
+        }
+        facts.push({
+            fact: entry.fact.trim(),
+            leftSection: sectionKeys.left ? readSectionNumber(entry[sectionKeys.left], sectionCounts.left, `${key}[${index}].${sectionKeys.left}`, issues) : null,
+            rightSection: sectionKeys.right ? readSectionNumber(entry[sectionKeys.right], sectionCounts.right, `${key}[${index}].${sectionKeys.right}`, issues) : null,
+        });
+    });
+    if (facts.length > limit) {
+        issues.push({ path: key, message: `expected at most ${limit} facts, got ${facts.length}` });
+        return facts.slice(0, limit);
+    }
+    return facts;
+};
+
+// Validates the response to an article comparison request (see compareArticles.ts). The prompt
+// calls the articles A and B; they come back as left and right.
+export function validateComparison(value: unknown, sectionCounts: { left: number; right: number }): ValidationResult<ModelComparison> {
+    const issues: ValidationIssue[] = [];
+    const root = readRoot(value, issues);
+
+    const framing: ModelComparison['framing'] = [];
+    if (!Array.isArray(root.framing)) {
+        issues.push({ path: 'framing', message: `expected an array of framing objects, got ${describe(root.framing)}` });
+    } else {
+        root.framing.forEach((entry, index) => {
+            if (!isPlainObject(entry) || !isNonEmptyString(entry.aspect) || !isNonEmptyString(entry.a) || !isNonEmptyString(entry.b)) {
+                issues.push({ path: `framing[${index}]`, message: 'expected an object with non-empty "aspect", "a" and "b" strings' });
+                return;
+            }
+            framing.push({ aspect: entry.aspect.trim(), left: entry.a.trim(), right: entry.b.trim() });
+        });
+        if (framing.length > MAX_FRAMING_DIFFERENCES) {
+            issues.push({ path: 'framing', message: `expected at most ${MAX_FRAMING_DIFFERENCES} differences, got ${framing.length}` });
+            framing.length = MAX_FRAMING_DIFFERENCES;
+        }
+    }
+
+    return {
+        data: {
+            sharedFacts: readComparedFacts(root, 'sharedFacts', { left: 'sectionA', right: 'sectionB' }, sectionCounts, MAX_SHARED_FACTS, issues),
+            leftOnlyFacts: readComparedFacts(root, 'onlyInA', { left: 'section' }, sectionCounts, MAX_UNIQUE_FACTS, issues),
+            rightOnlyFacts: readComparedFacts(root, 'onlyInB', { right: 'section' }, sectionCounts, MAX_UNIQUE_FACTS, issues),
+            framing,
+        },
+        issues,
+    };
+}
+
+// Converts validation issues into the warnings reported on StoryData
+export function toAnalysisWarnings(issues: ValidationIssue[]): AnalysisWarning[] {
+    return issues.map(issue => ({
+        // criteriaMet problems drop only the criteria; other SPICE problems drop the whole score
+        code: issue.path.startsWith('spiceScore') && !issue.path.startsWith('spiceScore.criteriaMet') ? 'spice_invalid' : 'invalid_field',
+        path: issue.path,
+        message: issue.message,
+    }));
+}
+
+// Formats issues for the repair prompt sent back to the model
+export function formatIssuesForRepair(issues: ValidationIssue[]): string {
+    return issues.map(issue => `- ${issue.path || '(root)'}: ${issue.message}`).join('\n');
+}
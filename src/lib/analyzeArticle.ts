@@ -0,0 +1,162 @@
+// src/lib/analyzeArticle.ts
+import type { AnalysisProvider } from '@/lib/analysisProvider';
+import { ANALYSIS_SYSTEM_PROMPT, buildAnalysisPrompt } from '@/lib/analysisPrompts';
+import { requestValidatedJson, toResponseWarnings } from '@/lib/analysisRequest';
+import { validateAnalysis } from '@/lib/analysisSchema';
+import { analyzeLongArticle, needsLongDocumentMode } from '@/lib/longDocumentAnalysis';
+import type { AnalysisPasses, AnalysisWarning, ClaimType, EntityType, SectionFraming, Sentiment, SpiceDimensionName, StructureFeatures, Tone } from '@/lib/types';
+
+// --- Interfaces ---
+
+// Define the structure for the SPICE score Claude should return
+export interface SpiceScoreClaudeResponse {
+    s: number; // Scannability score (1-5)
+    p: number; // Personalization score (1-5)
+    i: number; // Interactivity score (1-5)
+    c: number; // Curation score (1-5)
+    e: number; // Emotion score (1-5)
+    total: number; // Total score (sum of S, P, I, C, E)
+    justifications: { // Brief justifications for each score
+        scannability: string;
+        personalization: string;
+        interactivity: string;
+        curation: string;
+        emotion: string;
+    };
+    criteriaMet?: Record<SpiceDimensionName, number[]>; // Rubric criteria (1-5) awarded per dimension
+}
+
+// A quotation as the model reports it, before it is checked against the article text (see quotes.ts)
+export interface ModelQuote {
+    text: string;
+    speaker: string | null;
+    role: string | null;
+    section: number | null; // 1-based [SECTION n] number
+}
+
+// A named entity as the model reports it; mentions are counted from the text (see entities.ts)
+export interface ModelEntity {
+    name: string;
+    type: EntityType;
+    aliases: string[];
+}
+
+// A factual claim as the model reports it, before its sentence is found in the text (see claims.ts)
+export interface ModelClaim {
+    claim: string;
+    type: ClaimType;
+    sentence: string;
+    section: number | null; // 1-based [SECTION n] number
+    sourceCited: boolean;
+    citedSource: string | null;
+}
+
+// A dated event as the model reports it, before its sentence is found and its date checked (see timeline.ts)
+export interface ModelTimelineEvent {
+    dateText: string;
+    start: string | null; // YYYY, YYYY-MM or YYYY-MM-DD; null when the model couldn't work it out
+    end: string | null;
+    description: string;
+    sentence: string;
+    section: number | null; // 1-based [SECTION n] number
+}
+
+// One section's labels from the framing pass, before its loaded phrases are found in the text (see framing.ts)
+export interface ModelSectionFraming {
+    section: number; // 1-based [SECTION n] number
+    sentiment: Sentiment;
+    tone: Tone;
+    kind: SectionFraming['kind'];
+    loadedLanguage: Array<{ phrase: string; reason: string }>;
+}
+
+export interface ModelFraming {
+    sections: ModelSectionFraming[];
+    summary: string;
+}
+
+// A fact from the comparison of two articles, as the model reports it (see compareArticles.ts)
+export interface ModelComparedFact {
+    fact: string;
+    leftSection: number | null; // 1-based section number in the first article
+    rightSection: number | null;
+}
+
+export interface ModelComparison {
+    sharedFacts: ModelComparedFact[];
+    leftOnlyFacts: ModelComparedFact[];
+    rightOnlyFacts: ModelComparedFact[];
+    framing: Array<{ aspect: string; left: string; right: string }>;
+}
+
+// Define the structure Claude should return (including SPICE)
+export interface ExpectedClaudeResponse {
+    title: string;
+    source: string;
+    date: string;
+    summary: string;
+    highlights: string[];
+    sectionTitles: string[]; // One title per pre-chunked section, in order (content is chunked server-side)
+    quotes: ModelQuote[]; // Unverified; see quotes.ts
+    entities: ModelEntity[];
+    spiceScore: SpiceScoreClaudeResponse | null; // Added SPICE score object
+}
+
+// Everything the prompt needs to know about the extracted article
+export interface AnalysisInput {
+    articleUrl: string;
+    inferredSource: string;
+    fetchedTitle: string;
+    scrapedDate: string | null;
+    scrapedAuthor: string | null;
+    chunks: string[];
+    structure: StructureFeatures | null; // Measured from the content HTML, when there is any
+}
+
+// One window's partial result in the long-document mode
+export interface WindowAnalysis {
+    sectionTitles: string[];
+    summary: string;
+    highlights: string[];
+    quotes: ModelQuote[];
+    entities: ModelEntity[];
+    criteriaMet: SpiceScoreClaudeResponse['criteriaMet'] | null;
+}
+
+export interface AnalysisCallbacks {
+    onStart?: (model: string) => void;
+    onPartialSummary?: (text: string, complete: boolean) => void;
+}
+
+export interface AnalysisResult {
+    analysis: ExpectedClaudeResponse;
+    warnings: AnalysisWarning[];
+    passes: AnalysisPasses;
+}
+
+// Sends the article to the analysis provider and validates the JSON analysis against the schema
+// (repairing it where needed, see analysisRequest.ts). Articles too long for one response go
+// through the map-reduce long-document mode instead.
+export async function analyzeArticle(input: AnalysisInput, provider: AnalysisProvider, callbacks: AnalysisCallbacks = {}, signal?: AbortSignal): Promise<AnalysisResult> {
+    const { articleUrl } = input;
+    callbacks.onStart?.(provider.model);
+    if (needsLongDocumentMode(input.chunks)) {
+        return analyzeLongArticle(input, provider, callbacks, signal);
+    }
+
+    // --- Call the analysis provider (with repair round-trips) ---
+    const { prompt, sectionCount } = buildAnalysisPrompt(input);
+    console.log(`Sending request to ${provider.name} (${provider.model}) for ${articleUrl}. Prompt length: ~${prompt.length} chars`);
+    const response = await requestValidatedJson(provider, prompt, value => validateAnalysis(value, sectionCount), {
+        label: articleUrl,
+        system: ANALYSIS_SYSTEM_PROMPT,
+        onPartialSummary: callbacks.onPartialSummary,
+        signal,
+    });
+
+    return {
+        analysis: response.data,
+        warnings: toResponseWarnings(response),
+        passes: { mode: 'single', calls: response.calls, windows: 1, failedWindows: [] },
+    };
+}
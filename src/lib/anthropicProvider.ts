@@ -0,0 +1,52 @@
+// src/lib/anthropicProvider.ts
+import Anthropic from '@anthropic-ai/sdk';
+import type { AnalysisProvider, ProviderSettings } from '@/lib/analysisProvider';
+
+export const DEFAULT_ANTHROPIC_MODEL = "claude-3-haiku-20240307"; // Consider Opus/Sonnet for complex instructions or longer context
+
+// API Key Check
+export function getAnthropicClient() {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+        console.error("ANTHROPIC_API_KEY environment variable is not set.");
+        throw new Error("Server configuration error: API key missing.");
+    }
+    return new Anthropic({ apiKey });
+}
+
+// Streams completions from the Anthropic Messages API
+export function createAnthropicProvider(settings: ProviderSettings): AnalysisProvider {
+    const anthropicClient = getAnthropicClient();
+    const model = settings.model || DEFAULT_ANTHROPIC_MODEL;
+
+    return {
+        name: 'anthropic',
+        model,
+        temperature: settings.temperature,
+        async complete({ system, messages, maxTokens }, { onText, signal } = {}) {
+            const stream = anthropicClient.messages.stream({
+                model,
+                max_tokens: maxTokens,
+                system,
+                messages,
+                temperature: settings.temperature,
+            }, { signal });
+            if (onText) {
+                stream.on('text', onText);
+            }
+
+            const claudeResponse = await stream.finalMessage();
+            console.log(`Received response from Claude API. Output tokens: ${claudeResponse.usage.output_tokens}, stop reason: ${claudeResponse.stop_reason}`);
+
+            if (!claudeResponse.content || claudeResponse.content.length === 0 || claudeResponse.content[0].type !== 'text' || !claudeResponse.content[0].text) {
+                 console.error('Unexpected or empty response structure from Claude API:', JSON.stringify(claudeResponse));
+                 throw new Error('Received an unexpected or empty response from the analysis service.');
+            }
+            return {
+                text: claudeResponse.content[0].text.trim(),
+                truncated: claudeResponse.stop_reason === 'max_tokens',
+                outputTokens: claudeResponse.usage.output_tokens,
+            };
+        },
+    };
+}
@@ -0,0 +1,171 @@
+// src/lib/articleImages.ts
+// Images in the article body as rich objects: the URL a browser would load first, the
+// highest-resolution candidate from srcset and <picture> sources, alt text, the <figcaption>
+// caption with any photo credit split out, and dimensions. Lazy-loading attributes (data-src,
+// data-srcset and friends) are read as well, since scrapers never run the script that swaps them in.
+import { JSDOM } from 'jsdom';
+import type { ArticleImage, MetadataImage } from '@/lib/types';
+
+const MIN_DIMENSION = 50;
+const MAX_IMAGES = 10;
+const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original', 'data-url', 'data-hi-res-src'];
+const LAZY_SRCSET_ATTRIBUTES = ['data-srcset', 'data-lazy-srcset'];
+// Tracking pixels and lazy-load stand-ins
+const PLACEHOLDER_PATTERN = /^data:|placeholder|spacer|blank\.gif|pixel\.gif|1x1/i;
+// Class names publishers use for the photo credit inside a figure
+const CREDIT_CLASS_PATTERN = /credit|copyright|photographer|attribution/i;
+// Credits written into the caption text: "(Photo: Jane Doe/Agency)", "Credit: ...", "© ..."
+const CAPTION_CREDIT_PATTERNS = [
+    /\s*\(?\b(?:photo(?:graph)?|image|picture|illustration|credit)s?(?:\s+by|\s*:)\s*([^()]+?)\)?\s*$/i,
+    /\s*\(?©\s*([^()]+?)\)?\s*$/,
+];
+
+interface SrcsetCandidate {
+    url: string;
+    width: number | null; // From a `w` descriptor
+    density: number; // From an `x` descriptor; 1 when absent
+}
+
+const cleanText = (value: string | null | undefined): string | null => {
+    const text = value?.replace(/\s+/g, ' ').trim();
+    return text || null;
+};
+
+// Absolute http(s) URL, or null
+const resolveImageUrl = (value: string | null | undefined, articleUrl: string): string | null => {
+    const text = value?.trim();
+    if (!text || PLACEHOLDER_PATTERN.test(text)) return null;
+    try {
+        const resolved = new URL(text, articleUrl);
+        return ['http:', 'https:'].includes(resolved.protocol) ? resolved.toString() : null;
+    } catch {
+        return null;
+    }
+};
+
+const toDimension = (value: string | null): number | null => {
+    const parsed = parseInt(value || '', 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+// "a.jpg 800w, b.jpg 1600w" or "a.jpg, b.jpg 2x". Commas inside URLs are only treated as
+// separators when followed by whitespace, which keeps CDN URLs such as w_800,h_600 intact.
+function parseSrcset(srcset: string | null, articleUrl: string): SrcsetCandidate[] {
+    if (!srcset) return [];
+    return srcset.split(/,\s+/).flatMap(entry => {
+        const [rawUrl, descriptor = ''] = entry.trim().replace(/,$/, '').split(/\s+/);
+        const url = resolveImageUrl(rawUrl, articleUrl);
+        if (!url) return [];
+        const width = /^\d+w$/i.test(descriptor) ? parseInt(descriptor, 10) : null;
+        const density = /^[\d.]+x$/i.test(descriptor) ? parseFloat(descriptor) : 1;
+        return [{ url, width, density }];
+    });
+}
+
+// Largest `w` candidate, else the highest density
+const bestCandidate = (candidates: SrcsetCandidate[]): SrcsetCandidate | null => {
+    if (candidates.length === 0) return null;
+    const withWidth = candidates.filter(candidate => candidate.width !== null);
+    const pool = withWidth.length > 0 ? withWidth : candidates;
+    return pool.reduce((best, candidate) =>
+        (candidate.width ?? 0) > (best.width ?? 0) || (candidate.width === best.width && candidate.density > best.density) ? candidate : best
+    );
+};
+
+const firstAttribute = (element: Element, names: string[]): string | null =>
+    names.map(name => element.getAttribute(name)).find(value => value && value.trim()) ?? null;
+
+// Splits a photo credit off the caption, from a credit element or the caption's closing words
+function readCaption(figure: Element | null): { caption: string | null; credit: string | null } {
+    if (!figure) return { caption: null, credit: null };
+    const creditElement = [...figure.querySelectorAll('*')].find(element =>
+        CREDIT_CLASS_PATTERN.test(element.getAttribute('class') || '') || ['copyrightHolder', 'creditText'].includes(element.getAttribute('itemprop') || '')
+    );
+    const figcaption = figure.querySelector('figcaption');
+    let credit = cleanText(creditElement?.textContent);
+
+    let caption = cleanText(figcaption?.textContent);
+    if (caption && credit && figcaption?.contains(creditElement ?? null)) {
+        caption = cleanText(caption.replace(credit, ''));
+    }
+
+    if (caption && !credit) {
+        for (const pattern of CAPTION_CREDIT_PATTERNS) {
+            const match = caption.match(pattern);
+            if (match) {
+                credit = cleanText(match[1]);
+                caption = cleanText(caption.slice(0, match.index));
+                break;
+            }
+        }
+    }
+    return { caption, credit: credit?.replace(/^(?:photo|image|credit)s?\s*:\s*/i, '') || null };
+}
+
+function readImage(img: Element, articleUrl: string): ArticleImage | null {
+    const picture = img.closest('picture');
+    const srcset = firstAttribute(img, ['srcset', ...LAZY_SRCSET_ATTRIBUTES]);
+    const candidates = [
+        ...parseSrcset(srcset, articleUrl),
+        ...[...(picture?.querySelectorAll('source') ?? [])].flatMap(source =>
+            parseSrcset(firstAttribute(source, ['srcset', ...LAZY_SRCSET_ATTRIBUTES]), articleUrl)
+        ),
+    ];
+
+    const url = resolveImageUrl(img.getAttribute('src'), articleUrl)
+        ?? LAZY_SRC_ATTRIBUTES.map(name => resolveImageUrl(img.getAttribute(name), articleUrl)).find(Boolean)
+        ?? candidates[0]?.url
+        ?? null;
+    if (!url) return null;
+
+    const best = bestCandidate(candidates);
+    const width = toDimension(img.getAttribute('width') ?? img.getAttribute('data-width'));
+    const height = toDimension(img.getAttribute('height') ?? img.getAttribute('data-height'));
+    // Icons, avatars and tracking pixels that declare a small size
+    const isLikelyContent = (width === null && height === null) || (width ?? 0) >= MIN_DIMENSION || (height ?? 0) >= MIN_DIMENSION;
+    if (!isLikelyContent) return null;
+
+    const { caption, credit } = readCaption(img.closest('figure'));
+    return {
+        url,
+        bestUrl: best?.url ?? url,
+        alt: cleanText(img.getAttribute('alt')),
+        caption,
+        credit,
+        width: width ?? best?.width ?? null,
+        height,
+    };
+}
+
+// Images in Readability's article HTML, in page order, skipping `excludeUrls` (the primary image)
+export function extractArticleImages(contentHtml: string, articleUrl: string, excludeUrls: string[] = []): ArticleImage[] {
+    const { document } = new JSDOM(`<body>${contentHtml}</body>`, { url: articleUrl }).window;
+    const seenUrls = new Set(excludeUrls);
+    const images: ArticleImage[] = [];
+
+    const imgElements = document.querySelectorAll('img');
+    console.log(`DEBUG: Found ${imgElements.length} <img> tags within Readability content.`);
+    for (const img of imgElements) {
+        const image = readImage(img, articleUrl);
+        if (!image || seenUrls.has(image.url) || seenUrls.has(image.bestUrl)) continue;
+        seenUrls.add(image.url);
+        seenUrls.add(image.bestUrl);
+        images.push(image);
+        if (images.length === MAX_IMAGES) {
+            console.log(`DEBUG: Limited additional images to ${MAX_IMAGES}.`);
+            break;
+        }
+    }
+    return images;
+}
+
+// The primary (og:image / schema.org) image in the same shape as body images
+export const imageFromMetadata = (image: MetadataImage): ArticleImage => ({
+    url: image.url,
+    bestUrl: image.url,
+    alt: null,
+    caption: image.caption,
+    credit: null,
+    width: image.width,
+    height: image.height,
+});
@@ -0,0 +1,126 @@
+// src/lib/chunking.ts
+
+// Deterministic splitting of extracted article text into FactSection-sized chunks.
+// Chunks are built from paragraphs (and sentences, for oversized paragraphs) so that
+// every chunk's content is copied verbatim from the source text.
+
+export const DEFAULT_TARGET_WORDS = 150;
+const MIN_TARGET_WORDS = 40;
+const MAX_TARGET_WORDS = 1000;
+
+export interface ChunkOptions {
+    targetWords?: number; // Preferred chunk length in words
+    maxWords?: number;    // Hard ceiling before a paragraph is broken into sentences (defaults to 1.5x target)
+}
+
+const countWords = (text: string): number => {
+    const trimmed = text.trim();
+    return trimmed ? trimmed.split(/\s+/).length : 0;
+};
+
+// Normalizes whitespace inside a block without touching the words themselves
+const normalizeWhitespace = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+// Splits text into paragraphs. Readability usually separates blocks with blank lines;
+// if it didn't, single newlines are the next best signal.
+export function splitParagraphs(text: string): string[] {
+    let blocks = text.split(/\n\s*\n/);
+    if (blocks.length <= 1) {
+        blocks = text.split(/\n/);
+    }
+    return blocks.map(normalizeWhitespace).filter(block => block.length > 0);
+}
+
+// Splits a paragraph into sentences, keeping terminal punctuation and closing quotes attached.
+// Punctuation only ends a sentence when whitespace or the end of the paragraph follows, so
+// decimals ("3.9%") and the inner dots of "U.S." don't split one.
+export function splitSentences(paragraph: string): string[] {
+    const matches = paragraph.match(/(?:[^.!?]|[.!?](?![.!?]*["'”’)\]]*(?:\s|$)))+(?:[.!?]+["'”’)\]]*|$)/g);
+    if (!matches) return [paragraph];
+    return matches.map(s => s.trim()).filter(s => s.length > 0);
+}
+
+// Breaks a sentence that is longer than maxWords on word boundaries (last resort).
+const splitWords = (sentence: string, maxWords: number): string[] => {
+    const words = sentence.split(/\s+/);
+    const pieces: string[] = [];
+    for (let i = 0; i < words.length; i += maxWords) {
+        pieces.push(words.slice(i, i + maxWords).join(' '));
+    }
+    return pieces;
+};
+
+export function resolveTargetWords(value: unknown): number {
+    const fromEnv = parseInt(process.env.FACT_SECTION_TARGET_WORDS || '', 10);
+    const fallback = Number.isFinite(fromEnv) ? fromEnv : DEFAULT_TARGET_WORDS;
+    const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+    const target = Number.isFinite(parsed) ? parsed : fallback;
+    return Math.min(MAX_TARGET_WORDS, Math.max(MIN_TARGET_WORDS, Math.round(target)));
+}
+
+// Greedily packs paragraphs into chunks close to targetWords. Paragraphs that would push
+// a chunk past maxWords on their own are broken down into sentences first.
+export function chunkArticleText(text: string, options: ChunkOptions = {}): string[] {
+    const targetWords = options.targetWords ?? DEFAULT_TARGET_WORDS;
+    const maxWords = options.maxWords ?? Math.round(targetWords * 1.5);
+
+    // Flatten into units (paragraphs or sentences) that each fit within maxWords
+    const units: Array<{ text: string; words: number; paragraphStart: boolean }> = [];
+    for (const paragraph of splitParagraphs(text)) {
+        const words = countWords(paragraph);
+        if (words <= maxWords) {
+            units.push({ text: paragraph, words, paragraphStart: true });
+            continue;
+        }
+        let first = true;
+        for (const sentence of splitSentences(paragraph)) {
+            const sentenceWords = countWords(sentence);
+            const pieces = sentenceWords > maxWords ? splitWords(sentence, maxWords) : [sentence];
+            for (const piece of pieces) {
+                units.push({ text: piece, words: countWords(piece), paragraphStart: first });
+                first = false;
+            }
+        }
+    }
+
+    const chunks: Array<{ parts: string[]; words: number; paragraphStart: boolean }> = [];
+    let current: { parts: string[]; words: number; paragraphStart: boolean } = { parts: [], words: 0, paragraphStart: true };
+
+    for (const unit of units) {
+        const wouldBe = current.words + unit.words;
+        // Close the chunk once we're at the target, or if adding this unit overshoots it by more
+        // than it undershoots without it.
+        if (current.words > 0 && (current.words >= targetWords || (wouldBe > targetWords && wouldBe - targetWords > targetWords - current.words))) {
+            chunks.push(current);
+            current = { parts: [], words: 0, paragraphStart: unit.paragraphStart };
+        }
+        if (current.parts.length > 0) {
+            current.parts.push(unit.paragraphStart ? '\n\n' : ' ');
+        }
+        current.parts.push(unit.text);
+        current.words += unit.words;
+    }
+    if (current.words > 0) {
+        chunks.push(current);
+    }
+
+    // Fold a very short trailing chunk into its predecessor rather than leaving a stub section
+    if (chunks.length > 1) {
+        const last = chunks[chunks.length - 1];
+        const previous = chunks[chunks.length - 2];
+        if (last.words < targetWords * 0.3 && previous.words + last.words <= maxWords) {
+            previous.parts.push(last.paragraphStart ? '\n\n' : ' ', ...last.parts);
+            previous.words += last.words;
+            chunks.pop();
+        }
+    }
+
+    return chunks.map(chunk => chunk.parts.join(''));
+}
+
+// Fallback title for a chunk the model didn't title: its opening words.
+export function fallbackChunkTitle(chunk: string, maxWords = 8): string {
+    const words = normalizeWhitespace(chunk).split(' ');
+    const opening = words.slice(0, maxWords).join(' ').replace(/[,;:.!?]+$/, '');
+    return words.length > maxWords ? `${opening}...` : opening;
+}
@@ -0,0 +1,111 @@
+// src/lib/claims.ts
+// Checkable factual claims for fact-checkers: numbers, statistics, attributed statements and
+// causal claims, each with the sentence that makes it. Claims come from their own model request
+// (run alongside the main analysis, windowed like the long-document mode for long articles) and
+// are then checked like quotes: a claim is kept only if its sentence is in the article, and the
+// sentence is replaced by the article's own wording.
+import type { AnalysisProvider } from '@/lib/analysisProvider';
+import type { AnalysisInput, ModelClaim } from '@/lib/analyzeArticle';
+import { buildClaimsPrompt } from '@/lib/analysisPrompts';
+import { validateClaims } from '@/lib/analysisSchema';
+import { splitParagraphs, splitSentences } from '@/lib/chunking';
+import { requestPerWindow } from '@/lib/longDocumentAnalysis';
+import { containsPhrase, indexSectionText, isStatedInArticle, locateInSections, normalizeForMatch } from '@/lib/quotes';
+import type { AnalysisWarning, Claim, FactSection } from '@/lib/types';
+
+// A claim's supporting text may run across a few sentences, but not a whole paragraph
+const MAX_SUPPORTING_SENTENCES = 3;
+
+export interface ClaimExtractionResult {
+    claims: ModelClaim[] | null; // Null when every request failed
+    warnings: AnalysisWarning[];
+    calls: number;
+}
+
+// Asks the model for the claims in each window
+export async function extractClaims(input: AnalysisInput, provider: AnalysisProvider, signal?: AbortSignal): Promise<ClaimExtractionResult> {
+    const { results, warnings, calls } = await requestPerWindow(input, provider, {
+        name: 'claims',
+        buildPrompt: buildClaimsPrompt,
+        validate: validateClaims,
+        failureCode: 'claims_failed',
+        failureMessage: failedPart => `Claims could not be extracted from ${failedPart}.`,
+    }, signal);
+    return {
+        claims: results.every(result => result === null) ? null : results.flatMap(result => result?.claims ?? []),
+        warnings,
+        calls,
+    };
+}
+
+// Sentence positions in the section
+function sentenceSpans(content: string): Array<{ start: number; end: number }> {
+    const spans: Array<{ start: number; end: number }> = [];
+    let cursor = 0;
+    for (const sentence of splitParagraphs(content).flatMap(splitSentences)) {
+        const start = content.indexOf(sentence, cursor);
+        if (start === -1) continue;
+        spans.push({ start, end: start + sentence.length });
+        cursor = start + sentence.length;
+    }
+    return spans;
+}
+
+// The shortest run of the section's sentences containing the model's copy of the sentence, in
+// the article's own wording; the model's copy when it can't be pinned down (e.g. it used "...").
+// Shared with the timeline, whose events are checked the same way.
+export function findSourceSentence(modelSentence: string, content: string): string {
+    const target = normalizeForMatch(modelSentence);
+    const spans = sentenceSpans(content);
+    for (let end = 0; end < spans.length; end++) {
+        for (let start = end; start > end - MAX_SUPPORTING_SENTENCES && start >= 0; start--) {
+            const run = content.slice(spans[start].start, spans[end].end);
+            if (containsPhrase(normalizeForMatch(run), target)) return run;
+        }
+    }
+    return modelSentence;
+}
+
+// Keeps the claims whose sentence is in the sections, in article order, without duplicates
+export function verifyClaims(modelClaims: ModelClaim[], sections: FactSection[]): { claims: Claim[]; warnings: AnalysisWarning[] } {
+    const normalized = indexSectionText(sections);
+    const seen = new Set<string>();
+    const located: Array<{ claim: Claim; sectionIndex: number }> = [];
+    const warnings: AnalysisWarning[] = [];
+
+    modelClaims.forEach((modelClaim, index) => {
+        const key = normalizeForMatch(modelClaim.claim);
+        if (seen.has(key)) return;
+        seen.add(key);
+
+        const sectionIndex = locateInSections(modelClaim.sentence, modelClaim.section, normalized);
+        if (sectionIndex === null) {
+            warnings.push({
+                code: 'claim_unverified',
+                path: `claims[${index}]`,
+                message: `Dropped the claim "${modelClaim.claim}": its supporting sentence is not in the article text.`,
+            });
+            return;
+        }
+        // A credited source the article never names is not kept
+        const citedSource = modelClaim.citedSource && isStatedInArticle(modelClaim.citedSource, normalized.text) ? modelClaim.citedSource : null;
+        located.push({
+            claim: {
+                claim: modelClaim.claim,
+                type: modelClaim.type,
+                sentence: findSourceSentence(modelClaim.sentence, sections[sectionIndex].content),
+                sectionId: sections[sectionIndex].id,
+                sourceCited: modelClaim.sourceCited,
+                citedSource,
+            },
+            sectionIndex,
+        });
+    });
+
+    const claims = located
+        .map((entry, order) => ({ ...entry, order }))
+        .sort((a, b) => a.sectionIndex - b.sectionIndex || a.order - b.order)
+        .map(entry => entry.claim);
+    console.log(`DEBUG: Verified ${claims.length} of ${modelClaims.length} claims against the article text.`);
+    return { claims, warnings };
+}
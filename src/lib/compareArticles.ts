@@ -0,0 +1,136 @@
+// src/lib/compareArticles.ts
+// Comparison of two articles covering the same story, each already run through the pipeline.
+// Quotes, sources and SPICE scores are compared here from the two analyses; which facts both
+// articles report, and how their framing differs, is a judgement call left to one model request
+// over both articles' sections. If that request fails, the rest of the comparison is still returned.
+import type { AnalysisProvider } from '@/lib/analysisProvider';
+import type { ModelComparedFact } from '@/lib/analyzeArticle';
+import { buildComparisonPrompt } from '@/lib/analysisPrompts';
+import { requestValidatedJson, toResponseWarnings } from '@/lib/analysisRequest';
+import { validateComparison } from '@/lib/analysisSchema';
+import { containsPhrase, normalizeForMatch } from '@/lib/quotes';
+import type { ArticleComparison, ComparedFact, Quote, SpiceDelta, StoryData } from '@/lib/types';
+
+// Section text sent per article; facts past it are not compared
+const DEFAULT_MAX_CHARS_PER_ARTICLE = 30000;
+const SPICE_DELTA_DIMENSIONS = ['s', 'p', 'i', 'c', 'e', 'total'] as const;
+
+const getMaxCharsPerArticle = (): number => {
+    const configured = parseInt(process.env.COMPARISON_MAX_CHARS || '', 10);
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_CHARS_PER_ARTICLE;
+};
+
+// The same quote, possibly trimmed differently by each outlet: one contains the other
+const isSameQuote = (left: Quote, right: Quote): boolean => {
+    const a = normalizeForMatch(left.text);
+    const b = normalizeForMatch(right.text);
+    return containsPhrase(a, b) || containsPhrase(b, a);
+};
+
+function compareQuotes(left: Quote[], right: Quote[]): ArticleComparison['quotes'] {
+    const shared: Array<{ left: Quote; right: Quote }> = [];
+    const matchedRight = new Set<Quote>();
+    const leftOnly: Quote[] = [];
+    for (const quote of left) {
+        const match = right.find(candidate => !matchedRight.has(candidate) && isSameQuote(quote, candidate));
+        if (match) {
+            matchedRight.add(match);
+            shared.push({ left: quote, right: match });
+        } else {
+            leftOnly.push(quote);
+        }
+    }
+    return { shared, leftOnly, rightOnly: right.filter(quote => !matchedRight.has(quote)) };
+}
+
+// Equal names, or a surname on its own against the full name ("Doe" and "Jane Doe")
+const isSameSource = (a: string, b: string): boolean => {
+    const first = normalizeForMatch(a);
+    const second = normalizeForMatch(b);
+    if (first === second) return true;
+    const [shorter, longer] = first.length <= second.length ? [first, second] : [second, first];
+    return !shorter.includes(' ') && longer.split(' ').pop() === shorter;
+};
+
+// Quoted speakers and the sources claims credit, without duplicates
+const sourcesOf = (story: StoryData): string[] => {
+    const names = [
+        ...(story.quotes ?? []).map(quote => quote.speaker),
+        ...(story.claims ?? []).map(claim => claim.citedSource),
+    ].filter((name): name is string => !!name);
+    const unique: string[] = [];
+    for (const name of names) {
+        if (!unique.some(other => isSameSource(other, name))) unique.push(name);
+    }
+    return unique;
+};
+
+function compareSources(left: StoryData, right: StoryData): ArticleComparison['sources'] {
+    const leftSources = sourcesOf(left);
+    const rightSources = sourcesOf(right);
+    return {
+        // Shared sources are named as the left article names them
+        shared: leftSources.filter(name => rightSources.some(other => isSameSource(name, other))),
+        leftOnly: leftSources.filter(name => !rightSources.some(other => isSameSource(name, other))),
+        rightOnly: rightSources.filter(name => !leftSources.some(other => isSameSource(name, other))),
+    };
+}
+
+function compareSpiceScores(left: StoryData, right: StoryData): SpiceDelta[] | null {
+    const leftScore = left.spiceScore;
+    const rightScore = right.spiceScore;
+    if (!leftScore || !rightScore) return null;
+    return SPICE_DELTA_DIMENSIONS.map(dimension => ({
+        dimension,
+        left: leftScore[dimension],
+        right: rightScore[dimension],
+        delta: rightScore[dimension] - leftScore[dimension],
+    }));
+}
+
+// Section numbers to section ids
+const toComparedFacts = (facts: ModelComparedFact[], left: StoryData, right: StoryData): ComparedFact[] =>
+    facts.map(fact => ({
+        fact: fact.fact,
+        leftSectionId: fact.leftSection !== null ? left.factSections[fact.leftSection - 1]?.id ?? null : null,
+        rightSectionId: fact.rightSection !== null ? right.factSections[fact.rightSection - 1]?.id ?? null : null,
+    }));
+
+export async function compareStories(left: StoryData, right: StoryData, provider: AnalysisProvider, signal?: AbortSignal): Promise<ArticleComparison> {
+    const comparison: ArticleComparison = {
+        sharedFacts: [],
+        leftOnlyFacts: [],
+        rightOnlyFacts: [],
+        quotes: compareQuotes(left.quotes ?? [], right.quotes ?? []),
+        sources: compareSources(left, right),
+        spiceDeltas: compareSpiceScores(left, right),
+        framing: [],
+        warnings: [],
+    };
+
+    const label = `comparison of ${left.originalUrl || left.title} and ${right.originalUrl || right.title}`;
+    try {
+        const response = await requestValidatedJson(
+            provider,
+            buildComparisonPrompt(left, right, getMaxCharsPerArticle()),
+            (value) => validateComparison(value, { left: left.factSections.length, right: right.factSections.length }),
+            { label, signal }
+        );
+        comparison.sharedFacts = toComparedFacts(response.data.sharedFacts, left, right);
+        comparison.leftOnlyFacts = toComparedFacts(response.data.leftOnlyFacts, left, right);
+        comparison.rightOnlyFacts = toComparedFacts(response.data.rightOnlyFacts, left, right);
+        comparison.framing = response.data.framing;
+        comparison.warnings.push(...toResponseWarnings(response, 'comparison'));
+    } catch (comparisonError: unknown) {
+        if (signal?.aborted) throw comparisonError;
+        console.error(`Fact and framing comparison failed for ${label}:`, comparisonError);
+        comparison.warnings.push({
+            code: 'comparison_failed',
+            path: 'comparison',
+            message: `The facts and framing could not be compared. ${comparisonError instanceof Error ? comparisonError.message : 'Unknown error'}`,
+        });
+    }
+
+    console.log(`DEBUG: Compared articles: ${comparison.sharedFacts.length} shared facts, ${comparison.leftOnlyFacts.length}/${comparison.rightOnlyFacts.length} unique, ${comparison.quotes.shared.length} shared quotes, ${comparison.framing.length} framing differences.`);
+    return comparison;
+}
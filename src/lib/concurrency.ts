@@ -0,0 +1,34 @@
+// src/lib/concurrency.ts
+
+// Maps items through an async worker with at most `limit` calls in flight.
+// Results keep the input order.
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let nextIndex = 0;
+
+    const runWorker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await worker(items[index], index);
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(limit, items.length));
+    await Promise.all(Array.from({ length: workerCount }, runWorker));
+    return results;
+}
+
+// Runs a task with an AbortSignal that fires after timeoutMs; the task should honor the signal
+export async function withTimeout<R>(timeoutMs: number, task: (signal: AbortSignal) => Promise<R>, onTimeout: () => Error): Promise<R> {
+    const controller = new AbortController();
+    const timeoutError = onTimeout();
+    const timeoutId = setTimeout(() => controller.abort(timeoutError), timeoutMs);
+    try {
+        return await Promise.race([
+            task(controller.signal),
+            new Promise<never>((_, reject) => controller.signal.addEventListener('abort', () => reject(timeoutError), { once: true })),
+        ]);
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
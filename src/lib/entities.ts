@@ -0,0 +1,109 @@
+// src/lib/entities.ts
+// Index of the people, organizations, places and dates in an article. The analysis model names
+// them (with the other forms the text uses, such as a surname on second reference); the mentions
+// are then counted here, per fact section, by searching the section text. Entities the text never
+// mentions are dropped. Where names overlap ("Springfield" inside "Springfield Police
+// Department"), the longest form wins, so each stretch of text counts towards one entity.
+// The mention pattern has no server dependencies and is shared with the UI for highlighting.
+import type { ModelEntity } from '@/lib/analyzeArticle';
+import type { Entity, EntityType, FactSection } from '@/lib/types';
+
+export const ENTITY_TYPES: EntityType[] = ['person', 'organization', 'place', 'date'];
+const MAX_ALIASES = 8;
+
+// Curly apostrophes and runs of whitespace don't make a different name
+const normalizeName = (name: string): string => name.normalize('NFKC').replace(/[‘’]/g, "'").replace(/\s+/g, ' ').trim();
+
+// Shared with framing.ts for loaded-phrase patterns
+export const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches any of the forms as whole words, longest first; names are case-sensitive ("Apple" is not "apple")
+export function buildMentionPattern(forms: string[]): RegExp | null {
+    const alternatives = [...new Set(forms.map(normalizeName).filter(Boolean))]
+        .sort((a, b) => b.length - a.length)
+        .map(form => escapeRegExp(form).replace(/'/g, "['‘’]").replace(/ /g, '\\s+'));
+    if (alternatives.length === 0) return null;
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'gu');
+}
+
+const slugify = (text: string): string =>
+    text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+
+// Merges entries of the same type that share a name or alias (windows of a long article report the same people)
+function mergeEntities(modelEntities: ModelEntity[]): ModelEntity[] {
+    const merged: ModelEntity[] = [];
+    for (const entity of modelEntities) {
+        const forms = [entity.name, ...entity.aliases].map(normalizeName).filter(Boolean);
+        const existing = merged.find(candidate =>
+            candidate.type === entity.type
+            && [candidate.name, ...candidate.aliases].some(form => forms.some(other => other.toLowerCase() === form.toLowerCase()))
+        );
+        if (!existing) {
+            merged.push({ name: normalizeName(entity.name), type: entity.type, aliases: forms.slice(1) });
+            continue;
+        }
+        // The longer name is the fuller one ("Jane Doe" over "Doe")
+        const allForms = [existing.name, ...existing.aliases, ...forms];
+        if (normalizeName(entity.name).length > existing.name.length) existing.name = normalizeName(entity.name);
+        existing.aliases = [...new Set(allForms)].filter(form => form !== existing.name);
+    }
+    return merged.map(entity => ({ ...entity, aliases: entity.aliases.slice(0, MAX_ALIASES) }));
+}
+
+interface FormMatch {
+    entityIndex: number;
+    start: number;
+    end: number;
+}
+
+// Counts each entity's mentions per section and drops the ones with none
+export function indexEntities(modelEntities: ModelEntity[], sections: FactSection[]): Entity[] {
+    const entities = mergeEntities(modelEntities);
+    const counts = entities.map(() => new Map<string, number>());
+    const formsFound = entities.map(() => new Set<string>());
+
+    for (const section of sections) {
+        const text = normalizeName(section.content);
+        const matches: FormMatch[] = [];
+        entities.forEach((entity, entityIndex) => {
+            const pattern = buildMentionPattern([entity.name, ...entity.aliases]);
+            for (const match of pattern ? text.matchAll(pattern) : []) {
+                matches.push({ entityIndex, start: match.index, end: match.index + match[0].length });
+            }
+        });
+
+        // Longest matches claim their text first; anything overlapping a claimed stretch is skipped
+        const claimed: FormMatch[] = [];
+        for (const match of matches.sort((a, b) => (b.end - b.start) - (a.end - a.start) || a.start - b.start)) {
+            if (claimed.some(other => match.start < other.end && other.start < match.end)) continue;
+            claimed.push(match);
+            const sectionCounts = counts[match.entityIndex];
+            sectionCounts.set(section.id, (sectionCounts.get(section.id) ?? 0) + 1);
+            formsFound[match.entityIndex].add(normalizeName(text.slice(match.start, match.end)).replace(/[‘’]/g, "'"));
+        }
+    }
+
+    const usedIds = new Set<string>();
+    const indexed = entities.flatMap((entity, entityIndex): Entity[] => {
+        const mentions = sections
+            .filter(section => counts[entityIndex].has(section.id))
+            .map(section => ({ sectionId: section.id, count: counts[entityIndex].get(section.id) ?? 0 }));
+        if (mentions.length === 0) return [];
+
+        let id = `${entity.type}-${slugify(entity.name)}`;
+        if (usedIds.has(id)) id = `${id}-${entityIndex + 1}`;
+        usedIds.add(id);
+        return [{
+            id,
+            name: entity.name,
+            type: entity.type,
+            // Only the forms that actually occur, so the UI highlights what is there
+            aliases: entity.aliases.filter(alias => formsFound[entityIndex].has(alias)),
+            mentionCount: mentions.reduce((sum, mention) => sum + mention.count, 0),
+            mentions,
+        }];
+    });
+
+    console.log(`DEBUG: Indexed ${indexed.length} of ${entities.length} entities (${modelEntities.length} reported by the model).`);
+    return indexed.sort((a, b) => ENTITY_TYPES.indexOf(a.type) - ENTITY_TYPES.indexOf(b.type) || b.mentionCount - a.mentionCount || a.name.localeCompare(b.name));
+}
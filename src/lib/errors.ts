@@ -0,0 +1,27 @@
+// src/lib/errors.ts
+
+// Error carrying the HTTP status the API routes should respond with
+export class PipelineError extends Error {
+    status: number;
+    code?: string; // Machine-readable reason, e.g. BLOCKED_ADDRESS
+
+    constructor(message: string, status = 500, code?: string) {
+        super(message);
+        this.name = 'PipelineError';
+        this.status = status;
+        this.code = code;
+    }
+}
+
+// Maps any thrown value to a message and status for an API error response
+export function toErrorResponse(error: unknown, fallbackMessage = 'An internal server error occurred.'): { error: string; status: number; code?: string } {
+    if (error instanceof PipelineError) {
+        return error.code
+            ? { error: error.message, status: error.status, code: error.code }
+            : { error: error.message, status: error.status };
+    }
+    if (error instanceof Error) {
+        return { error: error.message, status: 500 };
+    }
+    return { error: fallbackMessage, status: 500 };
+}
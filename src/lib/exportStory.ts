@@ -0,0 +1,442 @@
+// src/lib/exportStory.ts
+// A processed story as a file editors can take elsewhere: Markdown (for briefing docs and
+// Slack), a standalone HTML page, a print-ready PDF, or versioned JSON. The PDF is laid out
+// here with pdfkit, in a bundled DejaVu font so non-Latin text survives. Images are kept as
+// links to the publisher's URLs rather than embedded.
+import { promises as fs } from 'fs';
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { PipelineError } from '@/lib/errors';
+import { formatPublisherDate, toTimestamp, wasUpdated } from '@/lib/publicationDates';
+import { SPICE_RUBRIC } from '@/lib/spiceRubric';
+import type { ArticleImage, ExportFormat, FactSection, PublicationDate, SpiceScoreData, StoryData, StoryExport, TextMetrics } from '@/lib/types';
+
+// Bump when StoryData changes in a way readers of exported JSON would notice
+export const STORY_EXPORT_VERSION = 1;
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'html', 'pdf', 'json'];
+
+export interface ExportedFile {
+    body: string | Buffer;
+    contentType: string;
+    filename: string;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Only http(s) URLs are linked or shown as images; anything else (javascript:, data:) is dropped
+const httpUrl = (value: string | null | undefined): string | null => {
+    if (!value) return null;
+    try {
+        return ['http:', 'https:'].includes(new URL(value).protocol) ? value : null;
+    } catch {
+        return null;
+    }
+};
+
+// --- Reading a posted story ---
+// The story comes from the request body, so every field the renderers read is checked: missing
+// optional fields get their defaults, and a field of the wrong shape is a 400.
+
+const invalid = (field: string, expected: string): PipelineError => new PipelineError(`story.${field} must be ${expected}`, 400);
+
+function readText(value: unknown, field: string): string | null {
+    if (value === undefined || value === null) return null;
+    if (typeof value !== 'string') throw invalid(field, 'a string or null');
+    return value;
+}
+
+function readSize(value: unknown, field: string): number | null {
+    if (value === undefined || value === null) return null;
+    if (!isFiniteNumber(value) || value <= 0) throw invalid(field, 'a positive number or null');
+    return Math.round(value);
+}
+
+function readImage(value: unknown, field: string): ArticleImage {
+    if (!isPlainObject(value) || typeof value.url !== 'string') throw invalid(field, 'an image with a "url" string');
+    return {
+        url: value.url,
+        bestUrl: readText(value.bestUrl, `${field}.bestUrl`) ?? value.url,
+        alt: readText(value.alt, `${field}.alt`),
+        caption: readText(value.caption, `${field}.caption`),
+        credit: readText(value.credit, `${field}.credit`),
+        width: readSize(value.width, `${field}.width`),
+        height: readSize(value.height, `${field}.height`),
+    };
+}
+
+function readDate(value: unknown, field: string): PublicationDate | null {
+    if (value === undefined || value === null) return null;
+    const valid = isPlainObject(value)
+        && typeof value.iso === 'string'
+        && (value.precision === 'day' || value.precision === 'time')
+        && (value.utcOffset === undefined || value.utcOffset === null || (typeof value.utcOffset === 'string' && /^(?:Z|[+-]\d{2}:\d{2})$/.test(value.utcOffset)))
+        && !isNaN(toTimestamp({ iso: value.iso, precision: value.precision }));
+    if (!valid) throw invalid(field, 'a publication date with "iso", "precision" and "utcOffset"');
+    return { ...value, utcOffset: value.utcOffset ?? null } as unknown as PublicationDate;
+}
+
+function readMetrics(value: unknown): TextMetrics | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!isPlainObject(value) || !isFiniteNumber(value.readingTimeMinutes) || !isFiniteNumber(value.wordCount)) {
+        throw invalid('metrics', 'text metrics with "readingTimeMinutes" and "wordCount" numbers');
+    }
+    return value as unknown as TextMetrics;
+}
+
+function readSpiceScore(value: unknown): SpiceScoreData | null {
+    if (value === undefined || value === null) return null;
+    const scoresValid = isPlainObject(value) && isFiniteNumber(value.total) && SPICE_RUBRIC.every(dimension => isFiniteNumber(value[dimension.key]));
+    if (!scoresValid) throw invalid('spiceScore', `a SPICE score with numeric "total" and ${SPICE_RUBRIC.map(dimension => `"${dimension.key}"`).join(', ')}`);
+    const { justifications } = value;
+    if (justifications !== undefined && !(isPlainObject(justifications) && Object.values(justifications).every(text => typeof text === 'string'))) {
+        throw invalid('spiceScore.justifications', 'an object of strings');
+    }
+    return value as unknown as SpiceScoreData;
+}
+
+export function readExportedStory(value: unknown): StoryData {
+    if (!isPlainObject(value)) throw new PipelineError('story must be a StoryData object', 400);
+    if (typeof value.title !== 'string' || typeof value.summary !== 'string') {
+        throw new PipelineError('story must have "title" and "summary" strings', 400);
+    }
+    const sectionsValid = Array.isArray(value.factSections) && value.factSections.every(section =>
+        isPlainObject(section) && typeof section.title === 'string' && typeof section.content === 'string');
+    if (!sectionsValid) throw invalid('factSections', 'an array of sections with "title" and "content" strings');
+    if (value.highlights !== undefined && !(Array.isArray(value.highlights) && value.highlights.every(item => typeof item === 'string'))) {
+        throw invalid('highlights', 'an array of strings');
+    }
+    if (value.images !== undefined && !Array.isArray(value.images)) throw invalid('images', 'an array of images');
+
+    // The rest is passed through as given, for the JSON export
+    return {
+        ...value,
+        title: value.title,
+        summary: value.summary,
+        factSections: value.factSections as FactSection[],
+        highlights: (value.highlights as string[] | undefined) ?? [],
+        source: readText(value.source, 'source') ?? '',
+        author: readText(value.author, 'author'),
+        date: readText(value.date, 'date') ?? 'Date not specified',
+        publishedAt: readDate(value.publishedAt, 'publishedAt'),
+        modifiedAt: readDate(value.modifiedAt, 'modifiedAt'),
+        originalUrl: readText(value.originalUrl, 'originalUrl') ?? '',
+        imageUrl: readText(value.imageUrl, 'imageUrl'),
+        primaryImage: value.primaryImage === undefined || value.primaryImage === null ? null : readImage(value.primaryImage, 'primaryImage'),
+        images: ((value.images as unknown[] | undefined) ?? []).map((image, index) => readImage(image, `images[${index}]`)),
+        metrics: readMetrics(value.metrics),
+        spiceScore: readSpiceScore(value.spiceScore),
+    };
+}
+
+// --- Shared pieces ---
+
+const slugify = (title: string): string =>
+    title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80) || 'story';
+
+// Label/value pairs shown under the title
+function metadataRows(story: StoryData): Array<[string, string]> {
+    const rows: Array<[string, string]> = story.source ? [['Source', story.source]] : [];
+    if (story.author) rows.push(['Author', story.author]);
+    const published = story.publishedAt ? formatPublisherDate(story.publishedAt) : story.date !== 'Date not specified' ? story.date : null;
+    if (published) rows.push(['Published', published]);
+    if (story.modifiedAt && wasUpdated(story.publishedAt, story.modifiedAt)) rows.push(['Updated', formatPublisherDate(story.modifiedAt)]);
+    if (story.metrics) rows.push(['Reading time', `${story.metrics.readingTimeMinutes} min (${story.metrics.wordCount.toLocaleString('en-US')} words)`]);
+    const originalUrl = httpUrl(story.originalUrl);
+    if (originalUrl) rows.push(['Original', originalUrl]);
+    return rows;
+}
+
+// The primary image first, then the body images
+const imagesOf = (story: StoryData): ArticleImage[] => {
+    const primary: ArticleImage[] = story.primaryImage
+        ? [story.primaryImage]
+        : story.imageUrl ? [{ url: story.imageUrl, bestUrl: story.imageUrl, alt: null, caption: null, credit: null, width: null, height: null }] : [];
+    return [...primary, ...(story.images ?? [])].filter(image => httpUrl(image.bestUrl));
+};
+
+const imageCaption = (image: ArticleImage): string =>
+    [image.caption, image.credit ? `Credit: ${image.credit}` : null].filter(Boolean).join(' · ');
+
+// --- Markdown ---
+
+// Characters that would otherwise turn prose into formatting
+const escapeMarkdown = (text: string): string => text.replace(/([\\`*_[\]<>])/g, '\\$1');
+
+export function renderMarkdown(story: StoryData): string {
+    const lines: string[] = [`# ${escapeMarkdown(story.title)}`, ''];
+    for (const [label, value] of metadataRows(story)) {
+        lines.push(`**${label}:** ${label === 'Original' ? `<${value}>` : escapeMarkdown(value)}  `);
+    }
+    const [leadImage, ...otherImages] = imagesOf(story);
+    if (leadImage) lines.push('', `![${escapeMarkdown(leadImage.alt ?? '')}](${leadImage.bestUrl})`);
+
+    lines.push('', '## Summary', '', escapeMarkdown(story.summary));
+    if (story.highlights.length > 0) {
+        lines.push('', '## Highlights', '', ...story.highlights.map(highlight => `- ${escapeMarkdown(highlight)}`));
+    }
+
+    lines.push('', '## Fact Sections');
+    for (const section of story.factSections) {
+        lines.push('', `### ${escapeMarkdown(section.title)}`, '', escapeMarkdown(section.content));
+    }
+
+    if (story.spiceScore) {
+        const score = story.spiceScore;
+        lines.push('', '## Engagement Score (SPICE)', '', `**Total:** ${score.total} / 25`, '', '| Dimension | Score | Justification |', '| --- | --- | --- |');
+        for (const dimension of SPICE_RUBRIC) {
+            const justification = score.justifications?.[dimension.name] ?? '';
+            lines.push(`| ${dimension.label} | ${score[dimension.key]}/5 | ${escapeMarkdown(justification).replace(/\|/g, '\\|').replace(/\n+/g, ' ')} |`);
+        }
+    }
+
+    if (otherImages.length > 0) {
+        lines.push('', '## Images', '');
+        otherImages.forEach((image, index) => {
+            const caption = imageCaption(image);
+            lines.push(`${index + 1}. [${escapeMarkdown(image.alt || `Image ${index + 1}`)}](${image.bestUrl})${caption ? `: ${escapeMarkdown(caption)}` : ''}`);
+        });
+    }
+    return lines.join('\n') + '\n';
+}
+
+// --- HTML ---
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Section text keeps its paragraph breaks
+const paragraphsHtml = (text: string): string =>
+    text.split(/\n{2,}/).map(paragraph => paragraph.trim()).filter(Boolean)
+        .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`).join('\n');
+
+const STYLESHEET = `
+body { font-family: Georgia, 'Times New Roman', serif; color: #1f2937; line-height: 1.6; max-width: 46rem; margin: 2rem auto; padding: 0 1.25rem; }
+h1 { font-size: 1.9rem; line-height: 1.25; margin-bottom: 0.5rem; }
+h2 { font-family: system-ui, sans-serif; font-size: 1.1rem; text-transform: uppercase; letter-spacing: 0.05em; color: #0f766e; margin-top: 2.25rem; border-bottom: 1px solid #d1d5db; padding-bottom: 0.25rem; }
+h3 { font-size: 1.15rem; margin: 1.5rem 0 0.25rem; color: #115e59; }
+dl.meta { display: grid; grid-template-columns: max-content 1fr; gap: 0.1rem 0.75rem; font-family: system-ui, sans-serif; font-size: 0.85rem; color: #4b5563; }
+dl.meta dt { font-weight: 600; }
+dl.meta dd { margin: 0; overflow-wrap: anywhere; }
+figure { margin: 1.25rem 0; }
+figure img { max-width: 100%; height: auto; }
+figcaption { font-family: system-ui, sans-serif; font-size: 0.8rem; color: #6b7280; }
+table { border-collapse: collapse; width: 100%; font-family: system-ui, sans-serif; font-size: 0.85rem; }
+th, td { border: 1px solid #d1d5db; padding: 0.35rem 0.5rem; text-align: left; vertical-align: top; }
+td.score { white-space: nowrap; text-align: right; }
+a { color: #0f766e; }
+footer { margin-top: 2.5rem; font-family: system-ui, sans-serif; font-size: 0.75rem; color: #9ca3af; }
+@page { margin: 18mm 16mm; }
+@media print {
+    body { margin: 0; max-width: none; padding: 0; font-size: 11pt; }
+    h2, h3 { break-after: avoid; }
+    figure, tr { break-inside: avoid; }
+    a { color: inherit; text-decoration: none; }
+}`;
+
+export function renderHtml(story: StoryData, exportedAt = new Date().toISOString()): string {
+    const meta = metadataRows(story).map(([label, value]) =>
+        `<dt>${label}</dt><dd>${label === 'Original' ? `<a href="${escapeHtml(value)}">${escapeHtml(value)}</a>` : escapeHtml(value)}</dd>`).join('\n');
+    const figure = (image: ArticleImage): string => {
+        const caption = imageCaption(image);
+        return `<figure><img src="${escapeHtml(image.bestUrl)}" alt="${escapeHtml(image.alt ?? '')}"${image.width && image.height ? ` width="${image.width}" height="${image.height}"` : ''}>${caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : ''}</figure>`;
+    };
+    const [leadImage, ...otherImages] = imagesOf(story);
+
+    const spice = story.spiceScore
+        ? `<h2>Engagement Score (SPICE)</h2>
+<p><strong>Total:</strong> ${story.spiceScore.total} / 25</p>
+<table>
+<thead><tr><th>Dimension</th><th>Score</th><th>Justification</th></tr></thead>
+<tbody>
+${SPICE_RUBRIC.map(dimension => `<tr><td>${dimension.label}</td><td class="score">${story.spiceScore?.[dimension.key]}/5</td><td>${escapeHtml(story.spiceScore?.justifications?.[dimension.name] ?? '')}</td></tr>`).join('\n')}
+</tbody>
+</table>`
+        : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(story.title)}</title>
+<style>${STYLESHEET}
+</style>
+</head>
+<body>
+<article>
+<h1>${escapeHtml(story.title)}</h1>
+<dl class="meta">
+${meta}
+</dl>
+${leadImage ? figure(leadImage) : ''}
+<h2>Summary</h2>
+${paragraphsHtml(story.summary)}
+${story.highlights.length > 0 ? `<h2>Highlights</h2>
+<ul>
+${story.highlights.map(highlight => `<li>${escapeHtml(highlight)}</li>`).join('\n')}
+</ul>` : ''}
+<h2>Fact Sections</h2>
+${story.factSections.map(section => `<section>
+<h3>${escapeHtml(section.title)}</h3>
+${paragraphsHtml(section.content)}
+</section>`).join('\n')}
+${spice}
+${otherImages.length > 0 ? `<h2>Images</h2>
+${otherImages.map(figure).join('\n')}` : ''}
+</article>
+<footer>Exported ${escapeHtml(exportedAt)}</footer>
+</body>
+</html>
+`;
+}
+
+// --- PDF ---
+
+// DejaVu covers Latin, Greek and Cyrillic; pdfkit's built-in fonts only cover Western European text
+const FONT_DIR = path.join(process.cwd(), 'node_modules', 'dejavu-fonts-ttf', 'ttf');
+const PDF_FONTS = {
+    serif: 'DejaVuSerif.ttf',
+    sans: 'DejaVuSans.ttf',
+    sansBold: 'DejaVuSans-Bold.ttf',
+    serifBold: 'DejaVuSerif-Bold.ttf',
+} as const;
+
+const PDF_COLORS = { text: '#1f2937', heading: '#0f766e', subheading: '#115e59', muted: '#4b5563', faint: '#9ca3af' };
+const MM = 72 / 25.4; // Points per millimetre
+
+export async function renderPdf(story: StoryData, exportedAt = new Date().toISOString()): Promise<Buffer> {
+    const fonts = await Promise.all(Object.entries(PDF_FONTS).map(async ([name, file]) => [name, await fs.readFile(path.join(FONT_DIR, file))] as const));
+    const doc = new PDFDocument({
+        size: 'A4',
+        margins: { top: 18 * MM, bottom: 18 * MM, left: 16 * MM, right: 16 * MM },
+        bufferPages: true,
+        info: { Title: story.title, ...(story.author ? { Author: story.author } : {}), Creator: 'Smart Story Suite' },
+    });
+    fonts.forEach(([name, data]) => doc.registerFont(name, data));
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const finished = new Promise<Buffer>((resolve, reject) => {
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+    });
+
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const left = doc.page.margins.left;
+    // Starts a new page when fewer than `space` points are left, so headings stay with their text
+    const keepTogether = (space: number) => {
+        if (doc.y + space > doc.page.height - doc.page.margins.bottom) doc.addPage();
+    };
+    const heading = (text: string) => {
+        doc.moveDown(1);
+        keepTogether(60);
+        doc.font('sansBold').fontSize(11).fillColor(PDF_COLORS.heading).text(text.toUpperCase(), left, doc.y, { width, characterSpacing: 0.5 });
+        const ruleY = doc.y + 2;
+        doc.moveTo(left, ruleY).lineTo(left + width, ruleY).lineWidth(0.5).strokeColor('#d1d5db').stroke();
+        doc.y = ruleY + 6;
+    };
+    const paragraphs = (text: string) => {
+        const parts = text.split(/\n{2,}/).map(paragraph => paragraph.trim()).filter(Boolean);
+        doc.font('serif').fontSize(11).fillColor(PDF_COLORS.text);
+        parts.forEach(paragraph => doc.text(paragraph, left, doc.y, { width, lineGap: 2.5, paragraphGap: 6 }));
+    };
+    const link = (label: string, url: string) =>
+        doc.font('sans').fontSize(9).fillColor(PDF_COLORS.heading).text(label, left, doc.y, { width, link: url, underline: true });
+    const imageReference = (image: ArticleImage, label: string) => {
+        keepTogether(30);
+        link(label, image.bestUrl);
+        const caption = imageCaption(image);
+        if (caption) doc.font('sans').fontSize(8.5).fillColor(PDF_COLORS.muted).text(caption, left, doc.y, { width });
+        doc.moveDown(0.4);
+    };
+
+    // --- Title and metadata ---
+    doc.font('serifBold').fontSize(22).fillColor(PDF_COLORS.text).text(story.title, left, doc.y, { width, lineGap: 2 });
+    doc.moveDown(0.5);
+    for (const [label, value] of metadataRows(story)) {
+        doc.font('sansBold').fontSize(9).fillColor(PDF_COLORS.muted).text(`${label}: `, left, doc.y, { width, continued: true });
+        doc.font('sans').text(value, label === 'Original' ? { link: value, underline: true } : {});
+    }
+    const [leadImage, ...otherImages] = imagesOf(story);
+    if (leadImage) {
+        doc.moveDown(0.5);
+        imageReference(leadImage, leadImage.alt ? `Lead image: ${leadImage.alt}` : 'Lead image');
+    }
+
+    heading('Summary');
+    paragraphs(story.summary);
+    if (story.highlights.length > 0) {
+        heading('Highlights');
+        doc.font('serif').fontSize(11).fillColor(PDF_COLORS.text).list(story.highlights, left, doc.y, { width, bulletRadius: 2, textIndent: 12, lineGap: 2.5, paragraphGap: 3 });
+    }
+
+    heading('Fact Sections');
+    story.factSections.forEach((section, index) => {
+        if (index > 0) doc.moveDown(0.6);
+        keepTogether(50);
+        doc.font('serifBold').fontSize(12.5).fillColor(PDF_COLORS.subheading).text(section.title, left, doc.y, { width });
+        doc.moveDown(0.2);
+        paragraphs(section.content);
+    });
+
+    if (story.spiceScore) {
+        const score = story.spiceScore;
+        heading('Engagement Score (SPICE)');
+        doc.font('sansBold').fontSize(10.5).fillColor(PDF_COLORS.text).text(`Total: ${score.total} / 25`, left, doc.y, { width });
+        doc.moveDown(0.4);
+        for (const dimension of SPICE_RUBRIC) {
+            keepTogether(30);
+            doc.font('sansBold').fontSize(9.5).fillColor(PDF_COLORS.text).text(`${dimension.label}  ${score[dimension.key]}/5`, left, doc.y, { width });
+            const justification = score.justifications?.[dimension.name];
+            if (justification) doc.font('sans').fontSize(9).fillColor(PDF_COLORS.muted).text(justification, left, doc.y, { width, lineGap: 1.5 });
+            doc.moveDown(0.35);
+        }
+    }
+
+    if (otherImages.length > 0) {
+        heading('Images');
+        otherImages.forEach((image, index) => imageReference(image, `${index + 1}. ${image.alt || `Image ${index + 1}`}`));
+    }
+
+    // --- Footer on every page ---
+    const pages = doc.bufferedPageRange();
+    for (let index = 0; index < pages.count; index++) {
+        doc.switchToPage(pages.start + index);
+        const footerY = doc.page.height - doc.page.margins.bottom + 6 * MM;
+        // Written below the bottom margin, so the margin is lifted to keep pdfkit from adding a page
+        const { bottom } = doc.page.margins;
+        doc.page.margins.bottom = 0;
+        doc.font('sans').fontSize(7.5).fillColor(PDF_COLORS.faint)
+            .text(`Exported ${exportedAt}`, left, footerY, { width: width / 2, lineBreak: false })
+            .text(`${index + 1} / ${pages.count}`, left + width / 2, footerY, { width: width / 2, align: 'right', lineBreak: false });
+        doc.page.margins.bottom = bottom;
+    }
+
+    doc.end();
+    return finished;
+}
+
+// --- JSON ---
+
+export function renderJson(story: StoryData, exportedAt = new Date().toISOString()): string {
+    const exported: StoryExport = { format: 'smart-story-agent/story', version: STORY_EXPORT_VERSION, exportedAt, story };
+    return JSON.stringify(exported, null, 2);
+}
+
+export async function exportStory(story: StoryData, format: ExportFormat): Promise<ExportedFile> {
+    const exportedAt = new Date().toISOString();
+    const slug = slugify(story.title);
+    switch (format) {
+        case 'markdown':
+            return { body: renderMarkdown(story), contentType: 'text/markdown; charset=utf-8', filename: `${slug}.md` };
+        case 'html':
+            return { body: renderHtml(story, exportedAt), contentType: 'text/html; charset=utf-8', filename: `${slug}.html` };
+        case 'pdf':
+            return { body: await renderPdf(story, exportedAt), contentType: 'application/pdf', filename: `${slug}.pdf` };
+        case 'json':
+            return { body: renderJson(story, exportedAt), contentType: 'application/json; charset=utf-8', filename: `${slug}.json` };
+    }
+}
@@ -0,0 +1,193 @@
+// src/lib/extractArticle.ts
+import { Readability } from '@mozilla/readability';
+import { PipelineError } from '@/lib/errors';
+import { extractArticleImages, imageFromMetadata } from '@/lib/articleImages';
+import { formatPublisherDate, resolvePublicationDates } from '@/lib/publicationDates';
+import { safeFetch, type SafeFetchOptions } from '@/lib/safeFetch';
+import { emptyPublicationMetadata, extractPublicationMetadata } from '@/lib/structuredMetadata';
+import type { ArticleImage, PublicationDate, PublicationMetadata } from '@/lib/types';
+
+// --- Interfaces ---
+
+export interface FetchedArticle {
+    html: string;
+    status: number;
+    contentType: string | null;
+    finalUrl: string; // The URL after redirects: the document's base for relative links
+}
+
+// `blockList` replaces the blocked address ranges, e.g. to run against a local stand-in server
+export type FetchArticleOptions = Pick<SafeFetchOptions, 'signal' | 'blockList'>;
+
+export interface ScrapedMetadata {
+    imageUrl: string | null;
+    date: string | null; // publishedAt as 'Month Day, Year'
+    publishedAt: PublicationDate | null;
+    modifiedAt: PublicationDate | null;
+    author: string | null;
+    canonicalUrl: string | null;
+    publication: PublicationMetadata | null; // Null for pasted text
+}
+
+export interface ExtractedContent {
+    articleText: string;
+    fetchedTitle: string;
+    inferredSource: string;
+    author: string | null;
+    primaryImage: ArticleImage | null;
+    images: ArticleImage[];
+    contentHtml: string | null; // Readability's cleaned article HTML; null for the body-text fallback
+}
+
+// Helper to name the source from a URL (pasted articles may not have a real one)
+const sourceFromUrl = (articleUrl: string): string => {
+    try {
+        return new URL(articleUrl).hostname || 'Pasted article';
+    } catch {
+        return 'Pasted article';
+    }
+};
+
+// --- Fetch ---
+const MAX_ARTICLE_BYTES = 5 * 1024 * 1024;
+
+export async function fetchArticleHtml(articleUrl: string, { signal, blockList }: FetchArticleOptions = {}): Promise<FetchedArticle> {
+    try {
+        const response = await safeFetch(articleUrl, {
+            accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+            allowedContentTypes: ['text/html', 'application/xhtml+xml'],
+            maxBytes: MAX_ARTICLE_BYTES,
+            timeoutMs: 15000,
+            signal,
+            blockList,
+        });
+
+        if (response.status < 200 || response.status >= 300) {
+            console.error(`Fetch failed for ${articleUrl} with status ${response.status} ${response.statusText}`);
+            if (response.status === 403) throw new PipelineError(`Failed to fetch article: Access denied (403). The site may block automated requests.`);
+            if (response.status === 404) throw new PipelineError(`Failed to fetch article: Not Found (404). Check the URL.`);
+            throw new PipelineError(`Failed to fetch article: ${response.status} ${response.statusText}`);
+        }
+        if (response.redirects > 0) {
+            console.log(`DEBUG: ${articleUrl} redirected ${response.redirects} time(s) to ${response.finalUrl}`);
+        }
+
+        return { html: response.body.toString('utf8'), status: response.status, contentType: response.contentType, finalUrl: response.finalUrl };
+    } catch (fetchError: unknown) {
+        if (signal?.aborted) {
+            throw signal.reason ?? fetchError;
+        }
+        if (fetchError instanceof Error && fetchError.name === 'AbortError') {
+            throw new PipelineError('Failed to fetch article: The request timed out.', 504);
+        }
+        throw fetchError;
+    }
+}
+
+// --- Metadata Scraping ---
+// The flat fields are derived from `publication`, which merges JSON-LD, Microdata and meta tags
+export function scrapeMetadata(document: Document, articleUrl: string): ScrapedMetadata {
+    let scrapedDate: string | null = null;
+    let publishedAt: PublicationDate | null = null;
+    let modifiedAt: PublicationDate | null = null;
+    let canonicalUrl: string | null = null;
+    let publication: PublicationMetadata;
+
+    try {
+        publication = extractPublicationMetadata(document, articleUrl);
+
+        ({ publishedAt, modifiedAt } = resolvePublicationDates(document, publication, articleUrl));
+        scrapedDate = publishedAt ? formatPublisherDate(publishedAt) : null;
+
+        const canonicalHref = document.querySelector('link[rel="canonical"]')?.getAttribute('href')
+                            || document.querySelector('meta[property="og:url"]')?.getAttribute('content');
+        if (canonicalHref) {
+            try {
+                const resolved = new URL(canonicalHref, articleUrl);
+                if (['http:', 'https:'].includes(resolved.protocol)) {
+                    canonicalUrl = resolved.toString();
+                }
+            } catch {
+                console.warn(`DEBUG: Ignoring unparseable canonical URL "${canonicalHref}".`);
+            }
+        }
+
+    } catch (metaError: unknown) {
+        console.error("DEBUG: Error scraping meta tags:", metaError);
+        return { imageUrl: null, date: null, publishedAt: null, modifiedAt: null, author: null, canonicalUrl: null, publication: emptyPublicationMetadata() };
+    }
+
+    return {
+        imageUrl: publication.images[0]?.url ?? null,
+        date: scrapedDate,
+        publishedAt,
+        modifiedAt,
+        author: publication.authors.map(person => person.name).join(', ') || null,
+        canonicalUrl,
+        publication,
+    };
+}
+
+// --- Readability ---
+export function extractArticleContent(document: Document, articleUrl: string, metadata: ScrapedMetadata): ExtractedContent {
+    let articleText = '';
+    let fetchedTitle = '';
+    let inferredSource = '';
+    let author = metadata.author;
+    const primaryMetadataImage = metadata.publication?.images[0];
+    let primaryImage = primaryMetadataImage ? imageFromMetadata(primaryMetadataImage) : null;
+    let images: ArticleImage[] = [];
+    let contentHtml: string | null = null;
+
+    // Classes are kept so photo credits can be found by class name
+    const reader = new Readability(document.cloneNode(true) as Document, { keepClasses: true });
+    const article = reader.parse();
+
+    if (!article || !article.textContent || article.textContent.trim().length < 150) {
+        const bodyText = document.body?.textContent?.trim();
+        if (bodyText && bodyText.length > 150) {
+            console.warn(`Readability failed or content too short for ${articleUrl}. Falling back to body text.`);
+            articleText = bodyText;
+            fetchedTitle = document.title || 'Title not found';
+            inferredSource = metadata.publication?.publisher?.name || sourceFromUrl(articleUrl);
+        } else {
+            console.error(`Could not extract meaningful content for ${articleUrl} using Readability or body fallback.`);
+            throw new PipelineError('Could not extract sufficient article content.');
+        }
+    } else {
+        articleText = article.textContent.trim();
+        fetchedTitle = article.title || document.title || 'Title not found';
+        inferredSource = metadata.publication?.publisher?.name || article.siteName || sourceFromUrl(articleUrl);
+        if (!author && article.byline) {
+            author = article.byline.replace(/^by\s+/i, '').trim();
+            console.log(`DEBUG: Using author from Readability byline: ${author}`);
+        }
+        contentHtml = article.content || null;
+        console.log(`Successfully extracted ~${articleText.length} characters via Readability.`);
+
+        // --- Extract Images from Readability Content ---
+        if (article.content) {
+            try {
+                // A body image that is the primary image lends it its caption, credit and alt text
+                const bodyImages = extractArticleImages(article.content, articleUrl);
+                const primaryInBody = primaryImage && bodyImages.find(image => image.url === primaryImage?.url || image.bestUrl === primaryImage?.url);
+                if (primaryImage && primaryInBody) {
+                    primaryImage = {
+                        ...primaryInBody,
+                        url: primaryImage.url,
+                        caption: primaryImage.caption ?? primaryInBody.caption,
+                        width: primaryImage.width ?? primaryInBody.width,
+                        height: primaryImage.height ?? primaryInBody.height,
+                    };
+                }
+                images = bodyImages.filter(image => image !== primaryInBody);
+                console.log(`DEBUG: Added ${images.length} valid additional images.`);
+            } catch(contentParseError) {
+                console.error("DEBUG: Error parsing Readability article.content HTML:", contentParseError);
+            }
+        }
+        // --- END: Extract Images ---
+    }
+
+    return { articleText, fetchedTitle, inferredSource, author, primaryImage, images, contentHtml };
+}
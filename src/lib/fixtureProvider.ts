@@ -0,0 +1,106 @@
+// src/lib/fixtureProvider.ts
+// Deterministic provider for offline runs and tests. In `replay` mode (the default) it answers
+// from JSON fixtures on disk, keyed by a hash of the system prompt, messages and token limit;
+// in `record` mode it forwards to a real provider (ANALYSIS_FIXTURE_UPSTREAM) and saves each
+// response. Fixtures live in ANALYSIS_FIXTURE_DIR (default `fixtures/analysis`).
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createProvider, readProviderName, type AnalysisProvider, type Completion, type CompletionRequest, type ProviderSettings } from '@/lib/analysisProvider';
+import { PipelineError } from '@/lib/errors';
+
+const FIXTURE_VERSION = 1;
+const REPLAY_CHUNK_CHARS = 64;
+
+export interface AnalysisFixture {
+    version: number;
+    key: string;
+    recordedAt: string;
+    provider: string; // Upstream provider and model the response was recorded from
+    request: CompletionRequest;
+    completion: Completion;
+}
+
+const getFixtureDir = (): string => process.env.ANALYSIS_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'analysis');
+
+// Model and temperature are left out, so fixtures replay regardless of which model is configured
+export const fixtureKey = ({ system, messages, maxTokens }: CompletionRequest): string =>
+    createHash('sha256').update(JSON.stringify({ system, messages, maxTokens })).digest('hex');
+
+const fixturePath = (key: string): string => path.join(getFixtureDir(), `${key}.json`);
+
+async function readFixture(key: string): Promise<AnalysisFixture | null> {
+    try {
+        const fixture: AnalysisFixture = JSON.parse(await fs.readFile(fixturePath(key), 'utf8'));
+        return fixture.version === FIXTURE_VERSION ? fixture : null;
+    } catch (readError: unknown) {
+        if ((readError as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+            console.warn(`DEBUG: Could not read analysis fixture ${key}:`, readError);
+        }
+        return null;
+    }
+}
+
+async function writeFixture(fixture: AnalysisFixture): Promise<void> {
+    const target = fixturePath(fixture.key);
+    const tempFile = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(tempFile, JSON.stringify(fixture, null, 2), 'utf8');
+    await fs.rename(tempFile, target);
+    console.log(`DEBUG: Recorded analysis fixture ${fixture.key}.`);
+}
+
+export function createFixtureProvider(settings: ProviderSettings): AnalysisProvider {
+    const mode = (process.env.ANALYSIS_FIXTURE_MODE || 'replay').toLowerCase();
+    if (mode !== 'replay' && mode !== 'record') {
+        throw new Error(`Server configuration error: ANALYSIS_FIXTURE_MODE must be replay or record (got "${mode}").`);
+    }
+
+    if (mode === 'record') {
+        const upstreamName = readProviderName('ANALYSIS_FIXTURE_UPSTREAM', 'anthropic');
+        if (upstreamName === 'fixture') {
+            throw new Error('Server configuration error: ANALYSIS_FIXTURE_UPSTREAM cannot be fixture.');
+        }
+        const upstream = createProvider(upstreamName, settings);
+        return {
+            name: 'fixture',
+            model: upstream.model,
+            temperature: upstream.temperature,
+            async complete(request, options) {
+                const completion = await upstream.complete(request, options);
+                const key = fixtureKey(request);
+                await writeFixture({
+                    version: FIXTURE_VERSION,
+                    key,
+                    recordedAt: new Date().toISOString(),
+                    provider: `${upstream.name}:${upstream.model}`,
+                    request,
+                    completion,
+                });
+                return completion;
+            },
+        };
+    }
+
+    return {
+        name: 'fixture',
+        model: settings.model || 'replay',
+        temperature: settings.temperature,
+        async complete(request, { onText, signal } = {}) {
+            const key = fixtureKey(request);
+            const fixture = await readFixture(key);
+            if (!fixture) {
+                throw new PipelineError(`No recorded analysis fixture for this request (${key.slice(0, 12)}). Record one with ANALYSIS_FIXTURE_MODE=record.`, 500, 'FIXTURE_NOT_FOUND');
+            }
+            console.log(`DEBUG: Replaying analysis fixture ${key} (recorded ${fixture.recordedAt} from ${fixture.provider}).`);
+            // Replay in fixed-size pieces so streaming consumers see the same deltas every run
+            if (onText) {
+                for (let offset = 0; offset < fixture.completion.text.length; offset += REPLAY_CHUNK_CHARS) {
+                    signal?.throwIfAborted();
+                    onText(fixture.completion.text.slice(offset, offset + REPLAY_CHUNK_CHARS));
+                }
+            }
+            return fixture.completion;
+        },
+    };
+}
@@ -0,0 +1,110 @@
+// src/lib/framing.ts
+// The optional framing pass, for standards editors. Each fact section is labeled with its
+// sentiment, its tone (neutral, opinion, advocacy) and whether it reports fact or offers
+// commentary, and the loaded words in it are picked out; the article gets a short framing
+// summary. The labels come from their own model request per window, run alongside the main
+// analysis when a request asks for them. Loaded phrases are kept only if they are in the section.
+import type { AnalysisProvider } from '@/lib/analysisProvider';
+import type { AnalysisInput, ModelFraming } from '@/lib/analyzeArticle';
+import { buildFramingPrompt, buildFramingSummaryPrompt } from '@/lib/analysisPrompts';
+import { requestValidatedJson, toResponseWarnings } from '@/lib/analysisRequest';
+import { validateFraming, validateFramingSummary } from '@/lib/analysisSchema';
+import { escapeRegExp } from '@/lib/entities';
+import { requestPerWindow } from '@/lib/longDocumentAnalysis';
+import type { AnalysisWarning, ArticleFraming, FactSection, LoadedPhrase } from '@/lib/types';
+
+// Fewer sections per request than the main analysis, so every section's labels fit in one response
+const FRAMING_WINDOW_SECTIONS = 15;
+
+export interface FramingAnalysisResult {
+    framing: ModelFraming | null; // Null when every request failed
+    warnings: AnalysisWarning[];
+    calls: number;
+}
+
+// Labels the sections window by window, then (for a long article) combines the parts' framing
+// summaries. A failed summary request falls back to joining the parts' summaries.
+export async function analyzeFraming(input: AnalysisInput, provider: AnalysisProvider, signal?: AbortSignal): Promise<FramingAnalysisResult> {
+    const windowed = await requestPerWindow(input, provider, {
+        name: 'framing',
+        maxSections: FRAMING_WINDOW_SECTIONS,
+        buildPrompt: buildFramingPrompt,
+        validate: (value, window) => validateFraming(value, { firstSection: window.firstSection, sectionCount: window.chunks.length }),
+        failureCode: 'framing_failed',
+        failureMessage: failedPart => `The framing and tone of ${failedPart} could not be analyzed.`,
+    }, signal);
+    const { warnings } = windowed;
+    let { calls } = windowed;
+    const succeeded = windowed.results.filter((framing): framing is ModelFraming => framing !== null);
+    if (succeeded.length === 0) return { framing: null, warnings, calls };
+
+    const partSummaries = succeeded.map(framing => framing.summary).filter(Boolean);
+    let summary = partSummaries[0] ?? '';
+    if (partSummaries.length > 1) {
+        try {
+            const response = await requestValidatedJson(provider, buildFramingSummaryPrompt(input, partSummaries), validateFramingSummary, { label: `${input.articleUrl} (framing summary)`, signal });
+            calls += response.calls;
+            summary = response.data.summary || partSummaries.join(' ');
+            warnings.push(...toResponseWarnings(response, 'framing.summary'));
+        } catch (summaryError: unknown) {
+            if (signal?.aborted) throw summaryError;
+            console.error(`Framing summary failed for ${input.articleUrl}; using the parts' summaries:`, summaryError);
+            summary = partSummaries.join(' ');
+        }
+    }
+
+    return { framing: { sections: succeeded.flatMap(framing => framing.sections), summary }, warnings, calls };
+}
+
+// Where the phrase is in the section: whole words, ignoring case, runs of whitespace and curly apostrophes
+function locatePhrase(content: string, phrase: string): { offset: number; length: number } | null {
+    const words = phrase.trim().split(/\s+/).map(word => escapeRegExp(word).replace(/['‘’]/g, "['‘’]"));
+    const match = new RegExp(`(?<![\\p{L}\\p{N}])${words.join('\\s+')}(?![\\p{L}\\p{N}])`, 'iu').exec(content);
+    return match ? { offset: match.index, length: match[0].length } : null;
+}
+
+export interface AppliedFraming {
+    sections: FactSection[];
+    framing: ArticleFraming;
+    warnings: AnalysisWarning[];
+}
+
+// Attaches the labels to the sections (by their [SECTION n] number) and finds each loaded phrase
+// in its section. Phrases that aren't there, or overlap one already found, are dropped.
+export function applyFraming(modelFraming: ModelFraming, sections: FactSection[]): AppliedFraming {
+    const labels = new Map(modelFraming.sections.map(entry => [entry.section, entry]));
+    const warnings: AnalysisWarning[] = [];
+
+    const framedSections = sections.map((section, index): FactSection => {
+        const label = labels.get(index + 1);
+        if (!label) return section;
+        const loadedLanguage: LoadedPhrase[] = [];
+        label.loadedLanguage.forEach((loaded, phraseIndex) => {
+            const found = locatePhrase(section.content, loaded.phrase);
+            if (!found) {
+                warnings.push({
+                    code: 'framing_unverified',
+                    path: `framing.sections[${index}].loadedLanguage[${phraseIndex}]`,
+                    message: `Dropped the loaded phrase "${loaded.phrase}": it is not in section ${index + 1}.`,
+                });
+                return;
+            }
+            if (loadedLanguage.some(other => found.offset < other.offset + other.length && other.offset < found.offset + found.length)) return;
+            loadedLanguage.push({ text: section.content.slice(found.offset, found.offset + found.length), reason: loaded.reason, ...found });
+        });
+        return {
+            ...section,
+            framing: { sentiment: label.sentiment, tone: label.tone, kind: label.kind, loadedLanguage: loadedLanguage.sort((a, b) => a.offset - b.offset) },
+        };
+    });
+
+    const labeled = framedSections.filter(section => section.framing);
+    const framing: ArticleFraming = {
+        summary: modelFraming.summary,
+        sectionsLabeled: labeled.length,
+        commentarySections: labeled.filter(section => section.framing?.kind === 'commentary').length,
+        loadedPhraseCount: labeled.reduce((sum, section) => sum + (section.framing?.loadedLanguage.length ?? 0), 0),
+    };
+    console.log(`DEBUG: Framing labels for ${framing.sectionsLabeled} of ${sections.length} sections, ${framing.loadedPhraseCount} loaded phrases found.`);
+    return { sections: framedSections, framing, warnings };
+}
@@ -0,0 +1,358 @@
+// src/lib/imageProxy.ts
+// Server side of GET /api/image-proxy. Publisher CDNs often refuse hotlinked images, so the UI
+// loads story images through this proxy instead. Images are fetched with safeFetch (the same SSRF
+// guards as article fetches), identified from their leading bytes rather than the declared type,
+// optionally resized and converted with sharp, and cached on local disk. Only hosts that images
+// in processed stories came from (or that are configured) can be proxied.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PipelineError } from '@/lib/errors';
+import { safeFetch, type SafeFetchResult } from '@/lib/safeFetch';
+import type { StoryData } from '@/lib/types';
+
+const CACHE_VERSION = 1;
+const MAX_SOURCE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_TTL_HOURS = 24 * 7;
+const DEFAULT_MAX_CACHE_MB = 512;
+const PRUNE_INTERVAL_MS = 60 * 1000;
+const STALE_TEMP_MS = 60 * 60 * 1000; // Temp files left this long by a crashed write are removed
+const OUTPUT_QUALITY = 75;
+// Requested widths are rounded up to one of these, so each image has a handful of cached variants
+const IMAGE_WIDTHS = [128, 256, 384, 640, 828, 1080, 1200, 1920];
+
+type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'avif';
+
+const CONTENT_TYPES: Record<ImageFormat, string> = {
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    avif: 'image/avif',
+};
+
+export interface ImageRequest {
+    url: string;
+    width: number | null; // One of IMAGE_WIDTHS; null keeps the original size
+    acceptsWebp: boolean;
+    referer: string | null; // The article page, sent upstream as the Referer
+}
+
+export interface ProxiedImage {
+    body: Buffer;
+    contentType: string;
+    cached: boolean;
+}
+
+interface CachedImageMeta {
+    version: number;
+    sourceUrl: string;
+    contentType: string;
+    cachedAt: string;
+    expiresAt: string;
+}
+
+type Sharp = typeof import('sharp');
+
+const getCacheDir = (): string => process.env.IMAGE_CACHE_DIR || path.join(process.cwd(), '.cache', 'images');
+// Outside the cache directory, so evicting images never forgets a host
+const getHostsDir = (): string => process.env.IMAGE_PROXY_HOSTS_DIR || path.join(process.cwd(), '.data', 'image-hosts');
+
+const getTtlMs = (): number => {
+    const hours = parseFloat(process.env.IMAGE_CACHE_TTL_HOURS || '');
+    return (Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+};
+
+const getMaxCacheBytes = (): number => {
+    const megabytes = parseFloat(process.env.IMAGE_CACHE_MAX_MB || '');
+    return (Number.isFinite(megabytes) && megabytes >= 0 ? megabytes : DEFAULT_MAX_CACHE_MB) * 1024 * 1024;
+};
+
+const parseHttpUrl = (value: string | null): URL | null => {
+    if (!value) return null;
+    try {
+        const url = new URL(value);
+        return ['http:', 'https:'].includes(url.protocol) ? url : null;
+    } catch {
+        return null;
+    }
+};
+
+// --- Allowed Hosts ---
+// Hosts that images in fetched stories came from are recorded as one marker file each, so the
+// list survives restarts and is shared by every worker using the same directory. Hosts in
+// IMAGE_PROXY_ALLOWED_HOSTS (comma-separated; subdomains match) are allowed as well. Anything
+// else is refused, so the proxy can't be used to fetch arbitrary URLs.
+const knownHosts = new Set<string>();
+
+const hostMarkerPath = (host: string): string => path.join(getHostsDir(), encodeURIComponent(host));
+
+const isConfiguredHost = (host: string): boolean =>
+    (process.env.IMAGE_PROXY_ALLOWED_HOSTS || '')
+        .split(',')
+        .map(entry => entry.trim().toLowerCase())
+        .filter(Boolean)
+        .some(entry => host === entry || host.endsWith(`.${entry}`));
+
+async function isAllowedHost(hostname: string): Promise<boolean> {
+    const host = hostname.toLowerCase();
+    if (knownHosts.has(host) || isConfiguredHost(host)) return true;
+    try {
+        await fs.access(hostMarkerPath(host));
+        knownHosts.add(host);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Records the hosts of a story's images, so the UI can load them through the proxy. Only stories
+// fetched from their URL count: pasted HTML can name any image host, so its images are loaded
+// directly instead. (Stories without an inputMode predate pasted input.)
+export async function allowStoryImageHosts(story: Pick<StoryData, 'imageUrl' | 'primaryImage' | 'images' | 'inputMode'>): Promise<void> {
+    if (story.inputMode && story.inputMode !== 'url') return;
+    const urls = [story.imageUrl, ...[story.primaryImage, ...(story.images ?? [])].flatMap(image => image ? [image.url, image.bestUrl] : [])];
+    const hosts = new Set(urls.map(url => parseHttpUrl(url ?? null)?.hostname.toLowerCase()).filter((host): host is string => !!host));
+    const added = [...hosts].filter(host => !knownHosts.has(host));
+    if (added.length === 0) return;
+    try {
+        await fs.mkdir(getHostsDir(), { recursive: true });
+        await Promise.all(added.map(host => fs.writeFile(hostMarkerPath(host), '', { flag: 'a' })));
+        added.forEach(host => knownHosts.add(host));
+    } catch (writeError: unknown) {
+        console.warn(`DEBUG: Could not record image hosts ${added.join(', ')}:`, writeError);
+    }
+}
+
+// Validates the query string of an image-proxy request
+export function parseImageRequest(searchParams: URLSearchParams, acceptHeader: string | null): ImageRequest {
+    const url = parseHttpUrl(searchParams.get('url'));
+    if (!url) {
+        throw new PipelineError('Missing or invalid "url": expected an http(s) image URL.', 400, 'UNSUPPORTED_URL');
+    }
+
+    let width: number | null = null;
+    const rawWidth = searchParams.get('w');
+    if (rawWidth !== null) {
+        const requested = parseInt(rawWidth, 10);
+        if (!Number.isFinite(requested) || requested <= 0) {
+            throw new PipelineError('"w" must be a positive number of pixels.', 400);
+        }
+        width = IMAGE_WIDTHS.find(candidate => candidate >= requested) ?? IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1];
+    }
+
+    return {
+        url: url.toString(),
+        width,
+        acceptsWebp: (acceptHeader || '').includes('image/webp'),
+        referer: parseHttpUrl(searchParams.get('ref'))?.toString() ?? null,
+    };
+}
+
+// Identifies the image from its leading bytes; SVG and anything unrecognised is refused
+function detectImageFormat(body: Buffer): ImageFormat | null {
+    if (body.length < 12) return null;
+    if (body[0] === 0xff && body[1] === 0xd8 && body[2] === 0xff) return 'jpeg';
+    if (body.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+    if (body.subarray(0, 4).toString('ascii') === 'GIF8') return 'gif';
+    if (body.subarray(0, 4).toString('ascii') === 'RIFF' && body.subarray(8, 12).toString('ascii') === 'WEBP') return 'webp';
+    if (body.subarray(4, 8).toString('ascii') === 'ftyp' && ['avif', 'avis'].includes(body.subarray(8, 12).toString('ascii'))) return 'avif';
+    return null;
+}
+
+// sharp is an optional dependency; without it images are served at their original size and format
+let sharpModule: Promise<Sharp | null> | null = null;
+const loadSharp = (): Promise<Sharp | null> => {
+    sharpModule ??= import('sharp')
+        .then(module => module.default)
+        .catch((importError: unknown) => {
+            console.warn('DEBUG: sharp is not available; the image proxy will not resize or convert images.', importError);
+            return null;
+        });
+    return sharpModule;
+};
+
+// Output format for a source image: WebP when the browser takes it, except for GIFs (which may be animated)
+const chooseFormat = (source: ImageFormat, request: ImageRequest): ImageFormat =>
+    request.acceptsWebp && source !== 'gif' ? 'webp' : source;
+
+async function transformImage(body: Buffer, source: ImageFormat, request: ImageRequest): Promise<{ body: Buffer; format: ImageFormat }> {
+    const format = chooseFormat(source, request);
+    if (format === source && request.width === null) return { body, format };
+    const sharp = await loadSharp();
+    if (!sharp) return { body, format: source };
+
+    try {
+        let pipeline = sharp(body, { animated: source === 'gif' }).rotate();
+        if (request.width !== null) {
+            pipeline = pipeline.resize({ width: request.width, withoutEnlargement: true });
+        }
+        pipeline = format === 'webp' ? pipeline.webp({ quality: OUTPUT_QUALITY })
+            : format === 'jpeg' ? pipeline.jpeg({ quality: OUTPUT_QUALITY, mozjpeg: true })
+            : format === 'avif' ? pipeline.avif({ quality: OUTPUT_QUALITY })
+            : format === 'png' ? pipeline.png()
+            : pipeline.gif();
+        return { body: await pipeline.toBuffer(), format };
+    } catch (transformError: unknown) {
+        console.warn(`DEBUG: Could not resize/convert ${request.url}; serving the original.`, transformError);
+        return { body, format: source };
+    }
+}
+
+// --- Disk Cache ---
+// The variant key covers everything that changes the bytes served
+const cacheKey = (request: ImageRequest): string =>
+    createHash('sha256').update(JSON.stringify([request.url, request.width, request.acceptsWebp])).digest('hex');
+
+const removeEntry = async (base: string): Promise<void> => {
+    // Metadata first, so a concurrent reader never finds metadata without its image
+    await fs.unlink(`${base}.json`).catch(() => {});
+    await fs.unlink(`${base}.bin`).catch(() => {});
+};
+
+async function readCachedImage(key: string): Promise<ProxiedImage | null> {
+    const base = path.join(getCacheDir(), key);
+    try {
+        const meta: CachedImageMeta = JSON.parse(await fs.readFile(`${base}.json`, 'utf8'));
+        if (meta.version !== CACHE_VERSION || Date.parse(meta.expiresAt) <= Date.now()) {
+            await removeEntry(base);
+            return null;
+        }
+        const body = await fs.readFile(`${base}.bin`);
+        // The image's modification time marks its last use, for least-recently-used eviction
+        const now = new Date();
+        await fs.utimes(`${base}.bin`, now, now).catch(() => {});
+        return { body, contentType: meta.contentType, cached: true };
+    } catch (readError: unknown) {
+        if ((readError as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+            console.warn(`DEBUG: Could not read image cache entry ${key}:`, readError);
+        }
+        return null;
+    }
+}
+
+// Removes expired entries and stale temp files, then evicts the least recently used images until
+// the cache fits within IMAGE_CACHE_MAX_MB. Runs at most once a minute, after a write.
+let lastPrunedAt = 0;
+let pruning: Promise<void> | null = null;
+
+async function pruneCache(): Promise<void> {
+    const dir = getCacheDir();
+    const now = Date.now();
+    const images: Array<{ base: string; size: number; usedAt: number }> = [];
+
+    for (const name of await fs.readdir(dir)) {
+        const file = path.join(dir, name);
+        try {
+            if (name.endsWith('.tmp')) {
+                if (now - (await fs.stat(file)).mtimeMs > STALE_TEMP_MS) await fs.unlink(file);
+            } else if (name.endsWith('.json')) {
+                const meta: CachedImageMeta = JSON.parse(await fs.readFile(file, 'utf8'));
+                if (meta.version !== CACHE_VERSION || Date.parse(meta.expiresAt) <= now) await removeEntry(file.slice(0, -'.json'.length));
+            } else if (name.endsWith('.bin')) {
+                const stats = await fs.stat(file);
+                images.push({ base: file.slice(0, -'.bin'.length), size: stats.size, usedAt: stats.mtimeMs });
+            }
+        } catch (entryError: unknown) {
+            // Removed by another request in the meantime, or unreadable: drop it
+            if ((entryError as NodeJS.ErrnoException)?.code !== 'ENOENT') await removeEntry(file.replace(/\.(json|bin)$/, ''));
+        }
+    }
+
+    const maxBytes = getMaxCacheBytes();
+    let total = 0;
+    let evicted = 0;
+    // Newest first: keep images while they fit, evict the rest
+    for (const image of images.sort((a, b) => b.usedAt - a.usedAt)) {
+        try {
+            await fs.access(`${image.base}.bin`); // Skips images removed as expired above
+        } catch {
+            continue;
+        }
+        total += image.size;
+        if (total > maxBytes) {
+            await removeEntry(image.base);
+            evicted++;
+        }
+    }
+    if (evicted > 0) console.log(`DEBUG: Evicted ${evicted} image(s) to keep the image cache under ${Math.round(maxBytes / 1024 / 1024)} MB.`);
+}
+
+const schedulePrune = async (): Promise<void> => {
+    if (pruning || Date.now() - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+    lastPrunedAt = Date.now();
+    pruning = pruneCache()
+        .catch((pruneError: unknown) => console.warn('DEBUG: Could not prune the image cache:', pruneError))
+        .finally(() => { pruning = null; });
+    await pruning;
+};
+
+// Writes the bytes before the metadata, so a reader never sees metadata without its image
+async function writeCachedImage(key: string, sourceUrl: string, image: ProxiedImage): Promise<void> {
+    if (image.body.length > getMaxCacheBytes()) return;
+    const now = Date.now();
+    const base = path.join(getCacheDir(), key);
+    const meta: CachedImageMeta = {
+        version: CACHE_VERSION,
+        sourceUrl,
+        contentType: image.contentType,
+        cachedAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + getTtlMs()).toISOString(),
+    };
+    const suffix = `${process.pid}.${now}.tmp`;
+    try {
+        await fs.mkdir(getCacheDir(), { recursive: true });
+        await fs.writeFile(`${base}.bin.${suffix}`, image.body);
+        await fs.rename(`${base}.bin.${suffix}`, `${base}.bin`);
+        await fs.writeFile(`${base}.json.${suffix}`, JSON.stringify(meta), 'utf8');
+        await fs.rename(`${base}.json.${suffix}`, `${base}.json`);
+    } catch (writeError: unknown) {
+        console.warn(`DEBUG: Could not write image cache entry for ${sourceUrl}:`, writeError);
+        await fs.unlink(`${base}.bin.${suffix}`).catch(() => {});
+        await fs.unlink(`${base}.json.${suffix}`).catch(() => {});
+        return;
+    }
+    await schedulePrune();
+}
+
+export async function getProxiedImage(request: ImageRequest): Promise<ProxiedImage> {
+    const { hostname } = new URL(request.url);
+    if (!await isAllowedHost(hostname)) {
+        throw new PipelineError(`Images from ${hostname} are not allowed by this proxy.`, 403, 'HOST_NOT_ALLOWED');
+    }
+
+    const key = cacheKey(request);
+    const cached = await readCachedImage(key);
+    if (cached) return cached;
+
+    let response: SafeFetchResult;
+    try {
+        response = await safeFetch(request.url, {
+            accept: 'image/avif,image/webp,image/png,image/jpeg,image/gif;q=0.9,*/*;q=0.5',
+            allowedContentTypes: ['image/*', 'application/octet-stream', 'binary/octet-stream'],
+            maxBytes: MAX_SOURCE_BYTES,
+            timeoutMs: 15000,
+            referer: request.referer ?? undefined,
+        });
+    } catch (fetchError: unknown) {
+        if (fetchError instanceof Error && fetchError.name === 'AbortError') {
+            throw new PipelineError('Image fetch timed out.', 504);
+        }
+        throw fetchError;
+    }
+    if (response.status < 200 || response.status >= 300) {
+        const notFound = response.status === 404 || response.status === 410;
+        throw new PipelineError(`Image fetch failed: ${response.status} ${response.statusText}`, notFound ? 404 : 502, 'UPSTREAM_ERROR');
+    }
+
+    const source = detectImageFormat(response.body);
+    if (!source) {
+        throw new PipelineError('The URL did not return a supported image (JPEG, PNG, GIF, WebP or AVIF).', 415, 'UNSUPPORTED_CONTENT_TYPE');
+    }
+
+    const { body, format } = await transformImage(response.body, source, request);
+    const image: ProxiedImage = { body, contentType: CONTENT_TYPES[format], cached: false };
+    console.log(`DEBUG: Proxied image ${request.url} (${source}, ${response.body.length} bytes -> ${format}, ${body.length} bytes${request.width ? `, width ${request.width}` : ''}).`);
+    await writeCachedImage(key, request.url, image);
+    return image;
+}
@@ -0,0 +1,14 @@
+// src/lib/imageProxyUrl.ts
+// Builds /api/image-proxy URLs for the UI (the server side is imageProxy.ts)
+
+export interface ProxyUrlOptions {
+    width?: number; // Rounded up by the proxy to one of its fixed widths
+    referer?: string; // The article page, for CDNs that check where a request came from
+}
+
+export function proxiedImageUrl(url: string, options: ProxyUrlOptions = {}): string {
+    const params = new URLSearchParams({ url });
+    if (options.width) params.set('w', String(options.width));
+    if (options.referer) params.set('ref', options.referer);
+    return `/api/image-proxy?${params.toString()}`;
+}
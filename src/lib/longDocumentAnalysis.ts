@@ -0,0 +1,183 @@
+// src/lib/longDocumentAnalysis.ts
+// Map-reduce analysis for articles too long for a single response. The chunks are grouped into
+// windows; each window is analyzed on its own for section titles, a local summary, candidate
+// highlights, quotes, entities and the SPICE criteria it meets (map), then one more call writes
+// the final summary, top highlights and overall SPICE score from those partial results (reduce).
+// A failed window only costs its section titles, quotes and entities; the reduce step works from
+// the windows that succeeded.
+import type { AnalysisProvider } from '@/lib/analysisProvider';
+import type { AnalysisCallbacks, AnalysisInput, AnalysisResult, WindowAnalysis } from '@/lib/analyzeArticle';
+import { buildReducePrompt, buildWindowPrompt, REDUCE_SYSTEM_PROMPT, WINDOW_SYSTEM_PROMPT, type PromptWindow } from '@/lib/analysisPrompts';
+import { requestValidatedJson, toResponseWarnings } from '@/lib/analysisRequest';
+import { validateAnalysis, validateWindowAnalysis, type ValidationResult } from '@/lib/analysisSchema';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { PipelineError } from '@/lib/errors';
+import type { AnalysisWarning } from '@/lib/types';
+
+const DEFAULT_WINDOW_CHARS = 40000;
+const MIN_WINDOW_CHARS = 5000;
+const MAX_WINDOW_CHARS = 150000;
+// Keeps each window's section titles well inside the response token limit
+const MAX_WINDOW_SECTIONS = 40;
+const WINDOW_CONCURRENCY = 2;
+
+// Window size in characters (ANALYSIS_WINDOW_CHARS)
+export const getWindowChars = (): number => {
+    const configured = parseInt(process.env.ANALYSIS_WINDOW_CHARS || '', 10);
+    return Number.isFinite(configured) ? Math.min(MAX_WINDOW_CHARS, Math.max(MIN_WINDOW_CHARS, configured)) : DEFAULT_WINDOW_CHARS;
+};
+
+// ANALYSIS_LONG_DOCUMENT picks the mode: auto (default; long articles only), always or never
+export function needsLongDocumentMode(chunks: string[]): boolean {
+    const mode = (process.env.ANALYSIS_LONG_DOCUMENT || 'auto').toLowerCase();
+    if (mode === 'never') return false;
+    if (mode === 'always') return chunks.length > 1;
+    const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    return totalChars > getWindowChars() || chunks.length > MAX_WINDOW_SECTIONS;
+}
+
+// Groups consecutive chunks into windows of at most windowChars characters and maxSections sections
+export function buildWindows(chunks: string[], windowChars: number, maxSections = MAX_WINDOW_SECTIONS): PromptWindow[] {
+    const windows: PromptWindow[] = [];
+    let current: string[] = [];
+    let currentChars = 0;
+    let firstSection = 1;
+
+    chunks.forEach((chunk, index) => {
+        const isFull = current.length >= maxSections || (currentChars + chunk.length > windowChars && current.length > 0);
+        if (isFull) {
+            windows.push({ index: windows.length, firstSection, chunks: current });
+            firstSection = index + 1;
+            current = [];
+            currentChars = 0;
+        }
+        current.push(chunk);
+        currentChars += chunk.length;
+    });
+    if (current.length > 0) {
+        windows.push({ index: windows.length, firstSection, chunks: current });
+    }
+    return windows;
+}
+
+// --- Windowed side requests (claims, the timeline and framing) ---
+
+export interface WindowedRequest<T> {
+    name: string; // For logs and warning paths, e.g. 'claims'
+    maxSections?: number; // Per window; defaults to the long-document limit
+    buildPrompt: (input: AnalysisInput, window: PromptWindow, windowCount: number) => string;
+    validate: (value: unknown, window: PromptWindow) => ValidationResult<T>;
+    failureCode: AnalysisWarning['code'];
+    failureMessage: (failedPart: string) => string; // Given "this article" or e.g. "parts 2, 3 of 4"
+}
+
+export interface WindowedResponses<T> {
+    results: Array<T | null>; // One per window; null where its request failed
+    warnings: AnalysisWarning[];
+    calls: number;
+}
+
+// Sends one validated request per window. A failed window is reported as a warning rather than
+// thrown, so the rest of the analysis survives it; cancellation still throws.
+export async function requestPerWindow<T>(input: AnalysisInput, provider: AnalysisProvider, request: WindowedRequest<T>, signal?: AbortSignal): Promise<WindowedResponses<T>> {
+    const windows = buildWindows(input.chunks, getWindowChars(), request.maxSections);
+    const failures: string[] = [];
+    let calls = 0;
+
+    const responses = await mapWithConcurrency<PromptWindow, { data: T; warnings: AnalysisWarning[] } | null>(windows, WINDOW_CONCURRENCY, async (window) => {
+        const label = windows.length > 1 ? `${input.articleUrl} (${request.name}, part ${window.index + 1}/${windows.length})` : `${input.articleUrl} (${request.name})`;
+        const pathPrefix = windows.length > 1 ? `${request.name}.windows[${window.index}]` : request.name;
+        try {
+            const response = await requestValidatedJson(provider, request.buildPrompt(input, window, windows.length), value => request.validate(value, window), { label, signal });
+            calls += response.calls;
+            return { data: response.data, warnings: toResponseWarnings(response, pathPrefix) };
+        } catch (requestError: unknown) {
+            if (signal?.aborted) throw requestError;
+            console.error(`Request failed for ${label}:`, requestError);
+            failures.push(requestError instanceof Error ? requestError.message : 'Unknown error');
+            return null;
+        }
+    });
+
+    const failed = windows.filter((_, index) => responses[index] === null).map(window => window.index + 1);
+    const warnings = responses.flatMap(response => response?.warnings ?? []);
+    if (failed.length > 0) {
+        const failedPart = failed.length === windows.length
+            ? 'this article'
+            : `part${failed.length === 1 ? '' : 's'} ${failed.join(', ')} of ${windows.length}`;
+        warnings.push({ code: request.failureCode, path: request.name, message: `${request.failureMessage(failedPart)} ${failures[0]}` });
+    }
+    return { results: responses.map(response => response?.data ?? null), warnings, calls };
+}
+
+export async function analyzeLongArticle(input: AnalysisInput, provider: AnalysisProvider, callbacks: AnalysisCallbacks = {}, signal?: AbortSignal): Promise<AnalysisResult> {
+    const { articleUrl } = input;
+    const windows = buildWindows(input.chunks, getWindowChars());
+    console.log(`DEBUG: Long-document mode for ${articleUrl}: ${input.chunks.length} sections in ${windows.length} windows.`);
+
+    // Counts every model call, including repairs and calls that end in an error
+    let calls = 0;
+    const countedProvider: AnalysisProvider = {
+        ...provider,
+        complete: (request, options) => {
+            calls++;
+            return provider.complete(request, options);
+        },
+    };
+
+    // --- Map: analyze each window ---
+    const windowWarnings: AnalysisWarning[][] = windows.map(() => []);
+    const results = await mapWithConcurrency<PromptWindow, WindowAnalysis | null>(windows, WINDOW_CONCURRENCY, async (window) => {
+        const label = `${articleUrl} (part ${window.index + 1}/${windows.length})`;
+        try {
+            const response = await requestValidatedJson(
+                countedProvider,
+                buildWindowPrompt(input, window, windows.length),
+                value => validateWindowAnalysis(value, window.chunks.length),
+                { label, system: WINDOW_SYSTEM_PROMPT, signal }
+            );
+            windowWarnings[window.index] = toResponseWarnings(response, `windows[${window.index}]`);
+            return response.data;
+        } catch (windowError: unknown) {
+            if (signal?.aborted) throw windowError;
+            const message = windowError instanceof Error ? windowError.message : 'Unknown error';
+            console.error(`Window analysis failed for ${label}:`, windowError);
+            const lastSection = window.firstSection + window.chunks.length - 1;
+            windowWarnings[window.index] = [{
+                code: 'window_failed',
+                path: `windows[${window.index}]`,
+                message: `Part ${window.index + 1} of ${windows.length} (sections ${window.firstSection}-${lastSection}) could not be analyzed, so its sections have generated titles. ${message}`,
+            }];
+            return null;
+        }
+    });
+
+    const failedWindows = windows.filter((_, index) => results[index] === null).map(window => window.index + 1);
+    if (failedWindows.length === windows.length) {
+        throw new PipelineError('The analysis service failed on every part of this article.', 502);
+    }
+
+    // --- Reduce: final summary, highlights and SPICE score ---
+    const reduced = await requestValidatedJson(
+        countedProvider,
+        buildReducePrompt(input, windows, results),
+        value => validateAnalysis(value, 0, { sectionTitles: false, quotes: false, entities: false }),
+        { label: `${articleUrl} (reduce)`, system: REDUCE_SYSTEM_PROMPT, onPartialSummary: callbacks.onPartialSummary, signal }
+    );
+
+    // Titles stay aligned with the chunks: a failed window, or one with too few titles, leaves blanks
+    const sectionTitles = windows.flatMap((window, index) =>
+        window.chunks.map((_, offset) => results[index]?.sectionTitles[offset] ?? '')
+    );
+    // Window prompts number sections across the whole article, so the quotes need no renumbering;
+    // entities reported by several windows are merged when they are indexed
+    const quotes = results.flatMap(result => result?.quotes ?? []);
+    const entities = results.flatMap(result => result?.entities ?? []);
+    console.log(`DEBUG: Long-document analysis for ${articleUrl} finished in ${calls} calls (${failedWindows.length} of ${windows.length} windows failed).`);
+
+    return {
+        analysis: { ...reduced.data, sectionTitles, quotes, entities },
+        warnings: [...windowWarnings.flat(), ...toResponseWarnings(reduced)],
+        passes: { mode: 'map-reduce', calls, windows: windows.length, failedWindows },
+    };
+}
@@ -0,0 +1,96 @@
+// src/lib/openAiProvider.ts
+// Provider for any server speaking the OpenAI chat completions API (OpenAI itself, or a local
+// model server such as llama.cpp, vLLM or Ollama). Configured with OPENAI_BASE_URL and
+// OPENAI_API_KEY; the key is optional for local servers.
+import fetch from 'node-fetch';
+import type { AnalysisProvider, ProviderSettings } from '@/lib/analysisProvider';
+import { PipelineError } from '@/lib/errors';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+interface ChatCompletionChunk {
+    choices?: Array<{ delta?: { content?: string | null }; finish_reason?: string | null }>;
+    usage?: { completion_tokens?: number } | null;
+}
+
+export function createOpenAiProvider(settings: ProviderSettings): AnalysisProvider {
+    const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey && baseUrl === DEFAULT_BASE_URL) {
+        console.error("OPENAI_API_KEY environment variable is not set.");
+        throw new Error("Server configuration error: API key missing.");
+    }
+    const model = settings.model || DEFAULT_OPENAI_MODEL;
+
+    return {
+        name: 'openai',
+        model,
+        temperature: settings.temperature,
+        async complete({ system, messages, maxTokens }, { onText, signal } = {}) {
+            const response = await fetch(`${baseUrl}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    model,
+                    max_tokens: maxTokens,
+                    temperature: settings.temperature,
+                    messages: [{ role: 'system', content: system }, ...messages],
+                    stream: true,
+                }),
+                signal,
+            });
+
+            if (!response.ok || !response.body) {
+                const detail = (await response.text().catch(() => '')).slice(0, 300);
+                console.error(`OpenAI-compatible server at ${baseUrl} returned ${response.status}: ${detail}`);
+                throw new Error(`Analysis service returned ${response.status} ${response.statusText}.`);
+            }
+
+            // --- Read the SSE stream: `data: <chunk json>` lines, ending with `data: [DONE]` ---
+            let text = '';
+            let finishReason: string | null = null;
+            let outputTokens: number | null = null;
+            let buffer = '';
+            // Decoded as one stream, so a character split across network chunks stays intact
+            const decoder = new TextDecoder('utf-8');
+            const handleLine = (line: string) => {
+                if (!line.startsWith('data:')) return;
+                const data = line.slice(5).trim();
+                if (!data || data === '[DONE]') return;
+                let chunk: ChatCompletionChunk;
+                try {
+                    chunk = JSON.parse(data) as ChatCompletionChunk;
+                } catch {
+                    console.error(`OpenAI-compatible server at ${baseUrl} sent an unreadable stream event: ${data.slice(0, 300)}`);
+                    throw new PipelineError('The OpenAI-compatible analysis server sent a malformed streaming response.', 502);
+                }
+                const choice = chunk.choices?.[0];
+                const delta = choice?.delta?.content;
+                if (delta) {
+                    text += delta;
+                    onText?.(delta);
+                }
+                finishReason = choice?.finish_reason ?? finishReason;
+                outputTokens = chunk.usage?.completion_tokens ?? outputTokens;
+            };
+            for await (const part of response.body) {
+                buffer += decoder.decode(part as Buffer, { stream: true });
+                const lines = buffer.split(/\r?\n/);
+                buffer = lines.pop() ?? '';
+                lines.forEach(handleLine);
+            }
+            buffer += decoder.decode();
+            handleLine(buffer);
+
+            console.log(`Received response from ${baseUrl}. Output tokens: ${outputTokens ?? 'unknown'}, finish reason: ${finishReason}`);
+            if (!text.trim()) {
+                throw new Error('Received an unexpected or empty response from the analysis service.');
+            }
+            return { text: text.trim(), truncated: finishReason === 'length', outputTokens };
+        },
+    };
+}
@@ -0,0 +1,332 @@
+// src/lib/pipeline.ts
+import { JSDOM } from 'jsdom';
+import { chunkArticleText, fallbackChunkTitle, resolveTargetWords, splitParagraphs } from '@/lib/chunking';
+import { fetchArticleHtml, scrapeMetadata, extractArticleContent, type ExtractedContent, type ScrapedMetadata } from '@/lib/extractArticle';
+import { analyzeArticle } from '@/lib/analyzeArticle';
+import { extractClaims, verifyClaims } from '@/lib/claims';
+import { describeProvider, getAnalysisProvider } from '@/lib/analysisProvider';
+import { hashArticleText, readCachedAnalysis, resolveCacheUrl, writeCachedAnalysis } from '@/lib/analysisCache';
+import { indexEntities } from '@/lib/entities';
+import { analyzeFraming, applyFraming } from '@/lib/framing';
+import { PipelineError } from '@/lib/errors';
+import { parsePublicationDate } from '@/lib/publicationDates';
+import { verifyQuotes } from '@/lib/quotes';
+import { applyStructuralScoring } from '@/lib/spiceScoring';
+import { saveStory } from '@/lib/storyStore';
+import { allowStoryImageHosts } from '@/lib/imageProxy';
+import { extractStructureFeatures } from '@/lib/structureFeatures';
+import { computeTextMetrics } from '@/lib/textMetrics';
+import { extractTimeline, verifyTimeline } from '@/lib/timeline';
+import type { FactSection, PipelineEvent, PublicationMetadata, StoryData, StructureFeatures } from '@/lib/types';
+
+export interface ProcessArticleInput {
+    articleUrl?: unknown;  // Required unless articleHtml or articleText is given; then optional context
+    articleHtml?: unknown; // Pasted page HTML: skips the network fetch
+    articleText?: unknown; // Pasted plain text: skips the fetch and Readability
+    sectionTargetWords?: unknown;
+    model?: unknown;       // Per-request model override (see ANALYSIS_ALLOWED_MODELS)
+    temperature?: unknown; // Per-request temperature override, 0-1
+    force?: boolean; // Skip the analysis cache lookup (the fresh result is still cached)
+    claims?: boolean;  // Also extract checkable claims (see claims.ts)
+    timeline?: boolean; // Also extract a timeline of dated events (see timeline.ts)
+    framing?: boolean; // Also run the framing and tone pass (see framing.ts)
+    signal?: AbortSignal; // Cancels in-flight fetch/analysis work (used for batch timeouts)
+}
+
+export type PipelineEventHandler = (event: PipelineEvent) => void;
+
+// Limits for pasted content
+const MAX_PASTED_HTML_CHARS = 5_000_000;
+const MAX_PASTED_TEXT_CHARS = 1_000_000;
+
+type ResolvedInput =
+    | { mode: 'url'; articleUrl: string }
+    | { mode: 'html'; articleUrl: string | null; html: string }
+    | { mode: 'text'; articleUrl: string | null; text: string };
+
+// Helper to generate simple IDs
+const generateId = (title: string): string => {
+    return title.toLowerCase()
+        .replace(/\s+/g, '-')
+        .replace(/[^\w-]+/g, '')
+        .replace(/--+/g, '-')
+        .replace(/^-+/, '')
+        .replace(/-+$/, '');
+};
+
+// Helper to pair server-side chunks with model-provided titles, keeping IDs unique
+const buildFactSections = (chunks: string[], titles: unknown): FactSection[] => {
+    const titleList = Array.isArray(titles) ? titles : [];
+    const usedIds = new Set<string>();
+    return chunks.map((content, index) => {
+        const candidate = titleList[index];
+        const title = typeof candidate === 'string' && candidate.trim() ? candidate.trim() : fallbackChunkTitle(content);
+        let id = generateId(title) || `section-${index + 1}`;
+        if (usedIds.has(id)) id = `${id}-${index + 1}`;
+        usedIds.add(id);
+        return { id, title, content };
+    });
+};
+
+// Validates the request input, throwing a 400 PipelineError for anything unusable
+export function validateArticleUrl(articleUrl: unknown): string {
+    if (!articleUrl || typeof articleUrl !== 'string') {
+        throw new PipelineError('Article URL is required', 400);
+    }
+    try { new URL(articleUrl); } catch {
+        throw new PipelineError('Invalid URL format provided', 400);
+    }
+    return articleUrl;
+}
+
+// Works out which input mode the request uses: a URL to fetch, or pasted HTML/text
+// (with an optional URL kept for context, source name and relative links).
+function resolveInput(input: ProcessArticleInput): ResolvedInput {
+    const hasHtml = input.articleHtml !== undefined && input.articleHtml !== null && input.articleHtml !== '';
+    const hasText = input.articleText !== undefined && input.articleText !== null && input.articleText !== '';
+    if (!hasHtml && !hasText) {
+        return { mode: 'url', articleUrl: validateArticleUrl(input.articleUrl) };
+    }
+    if (hasHtml && hasText) {
+        throw new PipelineError('Provide either articleHtml or articleText, not both', 400);
+    }
+
+    const articleUrl = input.articleUrl ? validateArticleUrl(input.articleUrl) : null;
+    if (hasHtml) {
+        if (typeof input.articleHtml !== 'string' || !input.articleHtml.trim()) {
+            throw new PipelineError('articleHtml must be a non-empty string', 400);
+        }
+        if (input.articleHtml.length > MAX_PASTED_HTML_CHARS) {
+            throw new PipelineError(`Pasted HTML is too large (max ${MAX_PASTED_HTML_CHARS.toLocaleString('en-US')} characters)`, 413);
+        }
+        return { mode: 'html', articleUrl, html: input.articleHtml };
+    }
+    if (typeof input.articleText !== 'string' || !input.articleText.trim()) {
+        throw new PipelineError('articleText must be a non-empty string', 400);
+    }
+    if (input.articleText.length > MAX_PASTED_TEXT_CHARS) {
+        throw new PipelineError(`Pasted text is too large (max ${MAX_PASTED_TEXT_CHARS.toLocaleString('en-US')} characters)`, 413);
+    }
+    return { mode: 'text', articleUrl, text: input.articleText };
+}
+
+// Builds extracted content straight from pasted text. The text is used verbatim (paragraph
+// breaks kept) rather than passed through Readability, which could drop short paragraphs.
+function contentFromPastedText(text: string, articleUrl: string | null): ExtractedContent {
+    const paragraphs = splitParagraphs(text);
+    const firstLine = paragraphs[0] ?? '';
+    const looksLikeTitle = paragraphs.length > 1 && firstLine.length <= 150 && !/[.!?]$/.test(firstLine);
+    return {
+        articleText: paragraphs.join('\n\n'),
+        fetchedTitle: looksLikeTitle ? firstLine : 'Untitled article',
+        inferredSource: articleUrl ? new URL(articleUrl).hostname : 'Pasted text',
+        author: null,
+        primaryImage: null,
+        images: [],
+        contentHtml: null,
+    };
+}
+
+// Runs fetch -> metadata scraping -> Readability -> chunking -> Claude, reporting each stage
+// through onEvent as it completes. Resolves with the final StoryData.
+export async function processArticle(input: ProcessArticleInput, onEvent: PipelineEventHandler = () => {}): Promise<StoryData> {
+    const resolved = resolveInput(input);
+    const provider = getAnalysisProvider({ model: input.model, temperature: input.temperature });
+    // Becomes the URL the fetch ended on after redirects: the base for links, the cache key and originalUrl
+    let articleUrl = resolved.articleUrl;
+    const label = articleUrl || `pasted ${resolved.mode}`;
+    console.log(`Processing ${resolved.mode === 'url' ? 'URL' : `pasted ${resolved.mode}`}: ${articleUrl || '(no URL)'}`);
+
+    let metadata: ScrapedMetadata = { imageUrl: null, date: null, publishedAt: null, modifiedAt: null, author: null, canonicalUrl: null, publication: null };
+    let content: ExtractedContent;
+
+    if (resolved.mode === 'text') {
+        onEvent({ type: 'fetched', url: articleUrl, origin: 'pasted', status: null, contentType: 'text/plain', bytes: resolved.text.length });
+        content = contentFromPastedText(resolved.text, articleUrl);
+    } else {
+        // --- Step 1: Fetch Article (skipped for pasted HTML) ---
+        let html: string;
+        if (resolved.mode === 'url') {
+            const fetched = await fetchArticleHtml(resolved.articleUrl, { signal: input.signal });
+            html = fetched.html;
+            articleUrl = fetched.finalUrl;
+            onEvent({ type: 'fetched', url: articleUrl, origin: 'network', status: fetched.status, contentType: fetched.contentType, bytes: html.length });
+        } else {
+            html = resolved.html;
+            onEvent({ type: 'fetched', url: articleUrl, origin: 'pasted', status: null, contentType: 'text/html', bytes: html.length });
+        }
+
+        // --- Step 2: Scrape Metadata and Extract Content ---
+        const baseUrl = articleUrl ?? 'about:blank';
+        let doc: JSDOM;
+        try {
+            doc = new JSDOM(html, { url: baseUrl });
+        } catch (parseError: unknown) {
+            console.error(`Error parsing article HTML (${label}):`, parseError);
+            throw new PipelineError(parseError instanceof Error ? parseError.message : 'An unknown fetch/parse error occurred.');
+        }
+        metadata = scrapeMetadata(doc.window.document, baseUrl);
+        content = extractArticleContent(doc.window.document, baseUrl, metadata);
+    }
+
+    const { articleText, fetchedTitle, inferredSource, author, primaryImage, images, contentHtml } = content;
+    // Record Readability's byline as the author source when no metadata named one
+    const publication: PublicationMetadata | null = metadata.publication && author && metadata.publication.authors.length === 0
+        ? { ...metadata.publication, authors: [{ name: author, url: null }], sources: { ...metadata.publication.sources, authors: 'readability' } }
+        : metadata.publication;
+    onEvent({
+        type: 'metadata',
+        metadata: {
+            title: fetchedTitle,
+            source: inferredSource,
+            author,
+            date: metadata.date,
+            publishedAt: metadata.publishedAt,
+            modifiedAt: metadata.modifiedAt,
+            imageUrl: metadata.imageUrl,
+            originalUrl: articleUrl ?? '',
+        },
+    });
+    console.log(`DEBUG: Using Title='${fetchedTitle}', Source='${inferredSource}', Author='${author || 'N/A'}', Date='${metadata.date || 'N/A'}', PrimaryImage='${metadata.imageUrl || 'N/A'}', AdditionalImages=${images.length}`);
+
+    if (articleText.length < 150) {
+       console.warn(`Final extracted content for ${label} is very short (${articleText.length} chars). Analysis quality might be low.`);
+    }
+
+    // --- Step 3: Chunk Article Text into Fact Sections ---
+    // Content is split here, verbatim, so the model only has to supply a title per chunk.
+    const targetWords = resolveTargetWords(input.sectionTargetWords);
+    const chunks = chunkArticleText(articleText, { targetWords });
+    console.log(`DEBUG: Chunked article into ${chunks.length} sections (target ${targetWords} words).`);
+    onEvent({ type: 'extracted', characters: articleText.length, sectionCount: chunks.length, images });
+
+    // --- Step 3b: Measure Article Structure (for the structural SPICE criteria) ---
+    let structure: StructureFeatures | null = null;
+    if (contentHtml) {
+        try {
+            structure = extractStructureFeatures(contentHtml, articleUrl ?? 'about:blank');
+            console.log(`DEBUG: Measured structure: ${JSON.stringify(structure)}`);
+        } catch (structureError: unknown) {
+            console.warn(`DEBUG: Could not measure article structure for ${label}; SPICE will be model-only.`, structureError);
+        }
+    }
+
+    input.signal?.throwIfAborted();
+
+    // --- Step 4: Check the Analysis Cache ---
+    const cacheKey = {
+        // Pasted content without a URL is keyed by its text alone
+        normalizedUrl: articleUrl ? resolveCacheUrl(articleUrl, metadata.canonicalUrl) : `pasted:${hashArticleText(articleText)}`,
+        contentHash: hashArticleText(articleText),
+        sectionTargetWords: targetWords,
+        analysisProfile: describeProvider(provider),
+    };
+    const cachedEntry = input.force ? null : await readCachedAnalysis(cacheKey);
+    // An entry analyzed without claims, the timeline or the framing pass can't answer a request for them
+    const answersRequest = (story: StoryData): boolean =>
+        (!input.claims || !!story.claims) && (!input.timeline || !!story.timeline) && (!input.framing || !!story.framing);
+    if (cachedEntry && answersRequest(cachedEntry.story)) {
+        console.log(`DEBUG: Serving cached analysis for ${cacheKey.normalizedUrl} (cached at ${cachedEntry.cachedAt}).`);
+        await allowStoryImageHosts(cachedEntry.story);
+        // This response differs from the story saved at analysis time (URL, publication, cache
+        // flags), so it is saved as its own story and its permalink shows exactly this body
+        const cachedStory = await saveStory({
+            ...cachedEntry.story,
+            id: undefined,
+            originalUrl: articleUrl ?? '',
+            inputMode: resolved.mode,
+            publication,
+            // Local and cheap, so entries cached before these metrics existed get them too
+            metrics: computeTextMetrics(articleText, cachedEntry.story.factSections),
+            cached: true,
+            cachedAt: cachedEntry.cachedAt,
+        });
+        onEvent({ type: 'summary', text: cachedStory.summary, complete: true });
+        onEvent({ type: 'sections', factSections: cachedStory.factSections });
+        onEvent({ type: 'spice', spiceScore: cachedStory.spiceScore });
+        onEvent({ type: 'done', story: cachedStory });
+        return cachedStory;
+    }
+
+    // --- Step 5: Analyze with Claude (the optional claims, timeline and framing passes are separate requests, run alongside) ---
+    const analysisInput = {
+        articleUrl: label,
+        inferredSource,
+        fetchedTitle,
+        scrapedDate: metadata.date,
+        scrapedAuthor: author,
+        chunks,
+        structure,
+    };
+    const [{ analysis: parsedData, warnings, passes }, claimExtraction, timelineExtraction, framingAnalysis] = await Promise.all([
+        analyzeArticle(
+            analysisInput,
+            provider,
+            {
+                onStart: (model) => onEvent({ type: 'analyzing', model }),
+                onPartialSummary: (text, complete) => onEvent({ type: 'summary', text, complete }),
+            },
+            input.signal
+        ),
+        input.claims ? extractClaims(analysisInput, provider, input.signal) : Promise.resolve(null),
+        input.timeline ? extractTimeline(analysisInput, provider, input.signal) : Promise.resolve(null),
+        input.framing ? analyzeFraming(analysisInput, provider, input.signal) : Promise.resolve(null),
+    ]);
+
+    // --- Step 6: Format data for Frontend ---
+    // A date from the page wins; otherwise the model's reading of the text, at low confidence
+    const publishedAt = metadata.publishedAt ?? parsePublicationDate(parsedData.date, 'model');
+    const sections = buildFactSections(chunks, parsedData.sectionTitles);
+    const framed = framingAnalysis?.framing ? applyFraming(framingAnalysis.framing, sections) : null;
+    const factSections = framed?.sections ?? sections;
+    const { quotes, warnings: quoteWarnings } = verifyQuotes(parsedData.quotes, factSections);
+    const { claims, warnings: claimWarnings } = claimExtraction?.claims
+        ? verifyClaims(claimExtraction.claims, factSections)
+        : { claims: null, warnings: [] };
+    const { timeline, warnings: timelineWarnings } = timelineExtraction?.events
+        ? verifyTimeline(timelineExtraction.events, factSections, publishedAt)
+        : { timeline: null, warnings: [] };
+    const storyData: StoryData = {
+        title: parsedData.title || fetchedTitle,
+        source: parsedData.source || inferredSource,
+        author,
+        date: metadata.publishedAt && metadata.date ? metadata.date : parsedData.date,
+        publishedAt,
+        modifiedAt: metadata.modifiedAt,
+        summary: parsedData.summary,
+        highlights: Array.isArray(parsedData.highlights) ? parsedData.highlights : [],
+        imageUrl: metadata.imageUrl,
+        primaryImage,
+        images,
+        originalUrl: articleUrl ?? '',
+        inputMode: resolved.mode,
+        factSections,
+        quotes,
+        entities: indexEntities(parsedData.entities, factSections),
+        claims: claimExtraction ? claims : undefined,
+        timeline: timelineExtraction ? timeline : undefined,
+        framing: framingAnalysis ? framed?.framing ?? null : undefined,
+        spiceScore: applyStructuralScoring(parsedData.spiceScore, structure),
+        structure,
+        metrics: computeTextMetrics(articleText, factSections),
+        warnings: [...warnings, ...quoteWarnings, ...(claimExtraction?.warnings ?? []), ...claimWarnings, ...(timelineExtraction?.warnings ?? []), ...timelineWarnings, ...(framingAnalysis?.warnings ?? []), ...(framed?.warnings ?? [])],
+        analysisPasses: passes,
+        publication,
+        cached: false,
+        cachedAt: null,
+    };
+    // Saved for its permalink before caching, so the cached copy carries the id it was saved under
+    const savedStory = await saveStory(storyData);
+    await writeCachedAnalysis(cacheKey, articleText, savedStory);
+    await allowStoryImageHosts(storyData);
+    onEvent({ type: 'sections', factSections: storyData.factSections });
+    onEvent({ type: 'spice', spiceScore: storyData.spiceScore });
+
+    console.log(`DEBUG: Final storyData: Title='${storyData.title}', Author='${storyData.author || 'N/A'}', Date='${storyData.date || 'N/A'}', PrimaryImage='${storyData.imageUrl || 'N/A'}', AdditionalImages=${storyData.images?.length ?? 0}, Sections=${storyData.factSections.length}, SPICE Score=${storyData.spiceScore?.total ?? 'N/A'}${claimExtraction ? `, Claims=${claims?.length ?? 'failed'} (${claimExtraction.calls} calls)` : ''}${timelineExtraction ? `, Timeline=${timeline?.length ?? 'failed'} (${timelineExtraction.calls} calls)` : ''}${framingAnalysis ? `, Framing=${framed ? `${framed.framing.sectionsLabeled} sections` : 'failed'} (${framingAnalysis.calls} calls)` : ''}`);
+    if (storyData.factSections.length > 0) {
+        console.log(`DEBUG: Generated Section Titles: ${storyData.factSections.map(s => s.title).join('; ')}`);
+    }
+
+    onEvent({ type: 'done', story: savedStory });
+    return savedStory;
+}
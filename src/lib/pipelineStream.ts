@@ -0,0 +1,45 @@
+// src/lib/pipelineStream.ts
+// Client-side reader for the Server-Sent Events emitted by /api/process-article/stream.
+// EventSource only supports GET, so the POST response body is parsed by hand.
+import type { PipelineEvent } from '@/lib/types';
+
+export async function consumePipelineStream(response: Response, onEvent: (event: PipelineEvent) => void): Promise<void> {
+    if (!response.body) {
+        throw new Error('Streaming is not supported by this browser.');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const dispatch = (frame: string) => {
+        const data = frame
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trimStart())
+            .join('\n');
+        if (!data) return;
+        try {
+            onEvent(JSON.parse(data) as PipelineEvent);
+        } catch (parseError) {
+            console.warn('<<< STREAM >>> Could not parse event data:', data, parseError);
+        }
+    };
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+            dispatch(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf('\n\n');
+        }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) {
+        dispatch(buffer);
+    }
+}
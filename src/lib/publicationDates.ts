@@ -0,0 +1,180 @@
+// src/lib/publicationDates.ts
+// Publication and modification dates as structured values: an ISO date or UTC timestamp, the
+// string it was read from, how it was found and how far to trust it. Dates keep the offset the
+// publisher wrote (when there was one) so the publisher's own calendar day can be shown.
+// The formatting helpers have no server dependencies and are shared with the UI.
+import type { DateMethod, PublicationDate, PublicationMetadata } from '@/lib/types';
+
+// How much each way of finding a date is trusted before adjustments
+const METHOD_CONFIDENCE: Record<DateMethod, number> = {
+    'json-ld': 0.95,
+    microdata: 0.9,
+    meta: 0.85,
+    'time-element': 0.6,
+    url: 0.5,
+    model: 0.3,
+};
+// A time of day without an offset could be in any zone
+const MISSING_OFFSET_PENALTY = 0.1;
+const MIN_YEAR = 1900;
+// Allows for clock skew and stories scheduled slightly ahead
+const MAX_FUTURE_MS = 2 * 24 * 60 * 60 * 1000;
+const UPDATE_THRESHOLD_MS = 60 * 60 * 1000;
+
+const ISO_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,]\d+)?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?)?$/i;
+const UNIX_TIMESTAMP_PATTERN = /^(\d{10}|\d{13})$/;
+const TIME_OF_DAY_PATTERN = /\d{1,2}:\d{2}/;
+const TEXT_OFFSET_PATTERN = /(?:GMT|UTC|\s)([+-]\d{2}:?\d{2})\b|\b(GMT|UTC|UT|Z|[ECMP][SD]T)\b/i;
+// Zone names Date.parse understands
+const NAMED_OFFSETS: Record<string, string> = {
+    GMT: 'Z', UTC: 'Z', UT: 'Z', Z: 'Z',
+    EST: '-05:00', EDT: '-04:00', CST: '-06:00', CDT: '-05:00',
+    MST: '-07:00', MDT: '-06:00', PST: '-08:00', PDT: '-07:00',
+};
+// Dated URL paths such as /2024/03/01/ or /2024-03-01-
+const URL_DATE_PATTERN = /\/((?:19|20)\d{2})[/-](\d{1,2})[/-](\d{1,2})(?:[/-]|$)/;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// "+0200", "+02" and "+02:00" all become "+02:00"; Z stays Z
+const normalizeOffset = (offset: string): string => {
+    if (offset.toUpperCase() === 'Z') return 'Z';
+    const digits = offset.slice(1).replace(':', '');
+    return `${offset[0]}${digits.slice(0, 2)}:${digits.slice(2, 4) || '00'}`;
+};
+
+const offsetMinutes = (offset: string | null): number => {
+    if (!offset || offset === 'Z') return 0;
+    const sign = offset.startsWith('-') ? -1 : 1;
+    return sign * (parseInt(offset.slice(1, 3), 10) * 60 + parseInt(offset.slice(4, 6), 10));
+};
+
+// Day-precision ISO date, or null for impossible dates such as 2024-02-31
+const isoDay = (year: number, month: number, day: number): string | null => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+export const toTimestamp = (date: Pick<PublicationDate, 'iso' | 'precision'>): number =>
+    Date.parse(date.precision === 'day' ? `${date.iso}T00:00:00Z` : date.iso);
+
+const isPlausible = (timestamp: number): boolean =>
+    !isNaN(timestamp) && new Date(timestamp).getUTCFullYear() >= MIN_YEAR && timestamp <= Date.now() + MAX_FUTURE_MS;
+
+const build = (raw: string, method: DateMethod, iso: string, precision: PublicationDate['precision'], utcOffset: string | null): PublicationDate | null => {
+    if (!isPlausible(toTimestamp({ iso, precision }))) return null;
+    const penalty = precision === 'time' && !utcOffset ? MISSING_OFFSET_PENALTY : 0;
+    const confidence = Math.round((METHOD_CONFIDENCE[method] - penalty) * 100) / 100;
+    return { iso, raw, method, confidence, precision, utcOffset };
+};
+
+// Parses ISO 8601, Unix timestamps and the English date strings Date.parse accepts ("March 1, 2024",
+// RFC 2822). Times without an offset are taken as UTC and recorded with a null utcOffset.
+export function parsePublicationDate(value: string | null | undefined, method: DateMethod): PublicationDate | null {
+    const raw = value?.trim();
+    if (!raw) return null;
+
+    const iso = raw.match(ISO_PATTERN);
+    if (iso) {
+        const [, year, month, day, hour, minute, second, offset] = iso;
+        const dayIso = isoDay(Number(year), Number(month), Number(day));
+        if (!dayIso) return null;
+        if (hour === undefined) return build(raw, method, dayIso, 'day', null);
+        const utcOffset = offset ? normalizeOffset(offset) : null;
+        const timestamp = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second ?? 0))
+            - offsetMinutes(utcOffset) * 60 * 1000;
+        return build(raw, method, new Date(timestamp).toISOString(), 'time', utcOffset);
+    }
+
+    if (UNIX_TIMESTAMP_PATTERN.test(raw)) {
+        const timestamp = Number(raw) * (raw.length === 10 ? 1000 : 1);
+        return build(raw, method, new Date(timestamp).toISOString(), 'time', 'Z');
+    }
+
+    // Date.parse reads zone-less text in the server's zone, so the local fields are read back as written
+    const parsed = new Date(raw);
+    if (isNaN(parsed.getTime())) return null;
+    if (!TIME_OF_DAY_PATTERN.test(raw)) {
+        const dayIso = isoDay(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate());
+        return dayIso ? build(raw, method, dayIso, 'day', null) : null;
+    }
+    const zone = raw.match(TEXT_OFFSET_PATTERN);
+    if (zone) {
+        const utcOffset = zone[1] ? normalizeOffset(zone[1]) : NAMED_OFFSETS[zone[2].toUpperCase()] ?? null;
+        return build(raw, method, parsed.toISOString(), 'time', utcOffset);
+    }
+    const asUtc = Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate(), parsed.getHours(), parsed.getMinutes(), parsed.getSeconds());
+    return build(raw, method, new Date(asUtc).toISOString(), 'time', null);
+}
+
+const methodForSource = (source: PublicationMetadata['sources'][keyof PublicationMetadata['sources']]): DateMethod =>
+    source === 'json-ld' || source === 'microdata' ? source : 'meta';
+
+export interface PublicationDates {
+    publishedAt: PublicationDate | null;
+    modifiedAt: PublicationDate | null;
+}
+
+// Published date from the page metadata, then an in-page <time> element, then a dated URL path;
+// modified date from the page metadata only
+export function resolvePublicationDates(document: Document, publication: PublicationMetadata, articleUrl: string): PublicationDates {
+    let publishedAt = parsePublicationDate(publication.datePublished, methodForSource(publication.sources.datePublished));
+
+    if (!publishedAt) {
+        const timeElement = document.querySelector('article time[datetime]')
+                         || document.querySelector('time[pubdate][datetime]')
+                         || document.querySelector('time[datetime]');
+        publishedAt = parsePublicationDate(timeElement?.getAttribute('datetime'), 'time-element');
+    }
+
+    if (!publishedAt) {
+        try {
+            const match = new URL(articleUrl).pathname.match(URL_DATE_PATTERN);
+            const fromUrl = match ? parsePublicationDate(`${match[1]}-${pad(Number(match[2]))}-${pad(Number(match[3]))}`, 'url') : null;
+            publishedAt = fromUrl && match ? { ...fromUrl, raw: match[0] } : null;
+        } catch {
+            // Pasted content without a URL
+        }
+    }
+
+    let modifiedAt = parsePublicationDate(publication.dateModified, methodForSource(publication.sources.dateModified));
+    if (modifiedAt && publishedAt && toTimestamp(modifiedAt) < toTimestamp(publishedAt)) {
+        console.warn(`DEBUG: Ignoring modified date "${modifiedAt.raw}": earlier than the published date "${publishedAt.raw}".`);
+        modifiedAt = null;
+    }
+
+    console.log(`DEBUG: Publication dates for ${articleUrl}: published=${publishedAt ? `${publishedAt.iso} (${publishedAt.method}, ${publishedAt.confidence})` : 'none'}, modified=${modifiedAt?.iso ?? 'none'}`);
+    return { publishedAt, modifiedAt };
+}
+
+// --- Formatting (server and UI) ---
+
+// 'Month Day, Year' on the publisher's own calendar (UTC when the offset is unknown), for StoryData.date
+export function formatPublisherDate(date: PublicationDate): string {
+    const shifted = new Date(toTimestamp(date) + offsetMinutes(date.utcOffset) * 60 * 1000);
+    return shifted.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+// YYYY-MM-DD on the publisher's own calendar (UTC when the offset is unknown)
+export function publisherDay(date: PublicationDate): string {
+    if (date.precision === 'day') return date.iso;
+    return new Date(toTimestamp(date) + offsetMinutes(date.utcOffset) * 60 * 1000).toISOString().slice(0, 10);
+}
+
+// In the reader's locale and time zone; day-precision dates are never shifted to a neighbouring day
+export function formatPublicationDate(date: PublicationDate, locale?: string, withTime = false): string {
+    if (date.precision === 'day') {
+        return new Date(toTimestamp(date)).toLocaleDateString(locale, { dateStyle: 'long', timeZone: 'UTC' });
+    }
+    return withTime
+        ? new Date(date.iso).toLocaleString(locale, { dateStyle: 'long', timeStyle: 'short' })
+        : new Date(date.iso).toLocaleDateString(locale, { dateStyle: 'long' });
+}
+
+// True when the story was modified meaningfully after it was published
+export function wasUpdated(publishedAt: PublicationDate | null | undefined, modifiedAt: PublicationDate | null | undefined): boolean {
+    if (!modifiedAt) return false;
+    if (!publishedAt) return true;
+    return toTimestamp(modifiedAt) - toTimestamp(publishedAt) >= UPDATE_THRESHOLD_MS;
+}
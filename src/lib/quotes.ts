@@ -0,0 +1,134 @@
+// src/lib/quotes.ts
+// Checks the quotes the analysis model reports against the article text, since a model asked for
+// "who said what" will sometimes tidy a quote up or make one up. The fact sections are cut verbatim
+// from the extracted text, so they are searched in its place: a quote is kept only if its words
+// appear there in order (an ellipsis may skip text), and it is filed under the section it was
+// actually found in. Speakers and roles the article never mentions are cleared rather than trusted.
+import type { ModelQuote } from '@/lib/analyzeArticle';
+import type { AnalysisWarning, FactSection, Quote } from '@/lib/types';
+
+const ELLIPSIS_PATTERN = /\[?(?:\.\s*){3}\]?|…/;
+// Words in a role that don't need to appear in the article ("spokesperson for the city")
+const ROLE_STOP_WORDS = new Set(['the', 'for', 'and', 'from', 'with', 'former', 'senior']);
+
+// Case, punctuation and quotation marks are ignored; apostrophes are dropped so "don’t" matches "dont"
+export const normalizeForMatch = (text: string): string =>
+    text.normalize('NFKC').toLowerCase().replace(/['‘’`]/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// True when every word of `phrase` appears as a whole word in `haystack` (both normalized)
+export const containsPhrase = (haystack: string, phrase: string): boolean =>
+    phrase.length > 0 && ` ${haystack} `.includes(` ${phrase} `);
+
+// All sections' text normalized for matching, shared with claim verification
+export interface SectionTextIndex {
+    text: string; // All sections, normalized and joined with single spaces
+    starts: number[]; // Offset of each section in `text`
+}
+
+export const indexSectionText = (sections: FactSection[]): SectionTextIndex => {
+    let text = '';
+    const starts: number[] = [];
+    for (const section of sections) {
+        if (text) text += ' ';
+        starts.push(text.length);
+        text += normalizeForMatch(section.content);
+    }
+    return { text, starts };
+};
+
+// Finds the quote's fragments in order, starting at `from`; returns where the first one begins
+function findQuote(fragments: string[], text: string, from: number): number | null {
+    // Offsets in `padded` match offsets in `text`, pointing at the space before each word
+    const padded = ` ${text} `;
+    let position = from;
+    let start: number | null = null;
+    for (const fragment of fragments) {
+        const found = padded.indexOf(` ${fragment} `, position);
+        if (found === -1) return null;
+        start ??= found;
+        position = found + fragment.length + 1;
+    }
+    return start;
+}
+
+// Index of the section containing `offset` in the joined text
+const sectionAt = (starts: number[], offset: number): number => {
+    let index = 0;
+    while (index + 1 < starts.length && starts[index + 1] <= offset) index++;
+    return index;
+};
+
+// Index of the section `text` appears in, or null. The section the model named (1-based) is
+// searched first, so a sentence that appears twice is filed where the model saw it.
+export function locateInSections(text: string, sectionNumber: number | null, normalized: SectionTextIndex): number | null {
+    const fragments = text.split(ELLIPSIS_PATTERN).map(normalizeForMatch).filter(Boolean);
+    if (fragments.length === 0) return null;
+    const hinted = sectionNumber !== null && sectionNumber <= normalized.starts.length ? sectionNumber - 1 : null;
+    if (hinted !== null) {
+        const start = findQuote(fragments, normalized.text, normalized.starts[hinted]);
+        if (start !== null && sectionAt(normalized.starts, start) === hinted) return hinted;
+    }
+    const start = findQuote(fragments, normalized.text, 0);
+    return start === null ? null : sectionAt(normalized.starts, start);
+}
+
+// A speaker is kept if the article names them: the full name, or its last word (surnames on second reference)
+const isNamedInArticle = (speaker: string, articleText: string): boolean => {
+    const name = normalizeForMatch(speaker);
+    const lastWord = name.split(' ').pop() ?? '';
+    return containsPhrase(articleText, name) || (lastWord.length > 1 && containsPhrase(articleText, lastWord));
+};
+
+// A role (or other description) is kept if its significant words all appear in the article, in any order
+export const isStatedInArticle = (role: string, articleText: string): boolean => {
+    const words = normalizeForMatch(role).split(' ').filter(word => word.length > 2 && !ROLE_STOP_WORDS.has(word));
+    return words.length > 0 && words.every(word => containsPhrase(articleText, word));
+};
+
+export interface VerifiedQuotes {
+    quotes: Quote[];
+    warnings: AnalysisWarning[];
+}
+
+// Keeps the quotes found in the sections, in article order, without duplicates
+export function verifyQuotes(modelQuotes: ModelQuote[], sections: FactSection[]): VerifiedQuotes {
+    const normalized = indexSectionText(sections);
+    const seen = new Set<string>();
+    const located: Array<{ quote: Quote; sectionIndex: number }> = [];
+    const warnings: AnalysisWarning[] = [];
+
+    modelQuotes.forEach((modelQuote, index) => {
+        const key = normalizeForMatch(modelQuote.text);
+        if (seen.has(key)) return;
+        seen.add(key);
+
+        const sectionIndex = locateInSections(modelQuote.text, modelQuote.section, normalized);
+        if (sectionIndex === null) {
+            warnings.push({
+                code: 'quote_unverified',
+                path: `quotes[${index}]`,
+                message: `Dropped a quote${modelQuote.speaker ? ` attributed to ${modelQuote.speaker}` : ''} that is not in the article text: "${modelQuote.text}"`,
+            });
+            return;
+        }
+
+        let speaker = modelQuote.speaker;
+        if (speaker && !isNamedInArticle(speaker, normalized.text)) {
+            warnings.push({
+                code: 'quote_unverified',
+                path: `quotes[${index}].speaker`,
+                message: `Removed the speaker "${speaker}", who is not named in the article.`,
+            });
+            speaker = null;
+        }
+        const role = speaker && modelQuote.role && isStatedInArticle(modelQuote.role, normalized.text) ? modelQuote.role : null;
+        located.push({ quote: { text: modelQuote.text, speaker, role, sectionId: sections[sectionIndex].id }, sectionIndex });
+    });
+
+    const quotes = located
+        .map((entry, order) => ({ ...entry, order }))
+        .sort((a, b) => a.sectionIndex - b.sectionIndex || a.order - b.order)
+        .map(entry => entry.quote);
+    console.log(`DEBUG: Verified ${quotes.length} of ${modelQuotes.length} quotes against the article text.`);
+    return { quotes, warnings };
+}
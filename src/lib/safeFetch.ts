@@ -0,0 +1,218 @@
+// src/lib/safeFetch.ts
+// Hardened outbound fetcher for user-supplied URLs. Guards against SSRF by resolving DNS and
+// refusing private, loopback and link-local targets (re-checked on every redirect hop and at
+// connect time, so DNS rebinding can't slip through), caps redirects and response size, and
+// rejects unexpected or missing content types before the body is read.
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import type { LookupFunction } from 'net';
+import fetch from 'node-fetch';
+import { PipelineError } from '@/lib/errors';
+
+// --- Error codes (each rejection gets its own HTTP status) ---
+export const SafeFetchErrorCodes = {
+    UNSUPPORTED_URL: { code: 'UNSUPPORTED_URL', status: 400 },
+    BLOCKED_ADDRESS: { code: 'BLOCKED_ADDRESS', status: 403 },
+    TOO_MANY_REDIRECTS: { code: 'TOO_MANY_REDIRECTS', status: 422 },
+    RESPONSE_TOO_LARGE: { code: 'RESPONSE_TOO_LARGE', status: 413 },
+    UNSUPPORTED_CONTENT_TYPE: { code: 'UNSUPPORTED_CONTENT_TYPE', status: 415 },
+} as const;
+
+type SafeFetchRejection = keyof typeof SafeFetchErrorCodes;
+
+const reject = (kind: SafeFetchRejection, message: string): PipelineError => {
+    const { code, status } = SafeFetchErrorCodes[kind];
+    return new PipelineError(message, status, code);
+};
+
+// --- Blocked address ranges ---
+// Private (RFC 1918), loopback, link-local (incl. cloud metadata at 169.254.169.254),
+// CGNAT, unspecified, multicast, reserved and documentation ranges.
+export function createDefaultBlockList(): net.BlockList {
+    const blockList = new net.BlockList();
+    const ipv4: Array<[string, number]> = [
+        ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+        ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+        ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+    ];
+    const ipv6: Array<[string, number]> = [
+        ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+        ['2001:db8::', 32], ['64:ff9b::', 96], ['100::', 64],
+    ];
+    ipv4.forEach(([address, prefix]) => blockList.addSubnet(address, prefix, 'ipv4'));
+    ipv6.forEach(([address, prefix]) => blockList.addSubnet(address, prefix, 'ipv6'));
+    return blockList;
+}
+
+const defaultBlockList = createDefaultBlockList();
+
+export interface SafeFetchOptions {
+    accept: string;                // Accept header to send
+    allowedContentTypes: string[]; // Media types (or `type/*` wildcards) accepted from the server
+    maxBytes: number;              // Maximum response body size
+    maxRedirects?: number;         // Defaults to 5
+    timeoutMs?: number;            // Whole-request timeout, defaults to 15s
+    signal?: AbortSignal;          // Caller cancellation
+    referer?: string;              // Referer header, for CDNs that only serve their own site's pages
+    blockList?: net.BlockList;     // Overrides the blocked ranges (e.g. an empty list to test against a local stand-in server)
+}
+
+export interface SafeFetchResult {
+    body: Buffer;
+    status: number;
+    statusText: string;
+    contentType: string | null;
+    finalUrl: string;
+    redirects: number;
+}
+
+const isBlocked = (address: string, blockList: net.BlockList): boolean => {
+    const family = net.isIP(address);
+    if (family === 0) return true; // Not an IP at all: refuse rather than guess
+    return blockList.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+// dns.lookup wrapper used by the HTTP agents, so the address actually connected to is the one checked
+const createGuardedLookup = (blockList: net.BlockList): LookupFunction => (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, '', 0);
+        const list = addresses as dns.LookupAddress[];
+        const blocked = list.find(entry => isBlocked(entry.address, blockList));
+        if (blocked || list.length === 0) {
+            const blockedError: NodeJS.ErrnoException = new Error(`Refusing to connect to ${hostname} (${blocked?.address ?? 'no address'}).`);
+            blockedError.code = 'EBLOCKEDADDRESS';
+            return callback(blockedError, '', 0);
+        }
+        if (options.all) {
+            return (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, list);
+        }
+        callback(null, list[0].address, list[0].family);
+    });
+};
+
+// Checks the URL's scheme and resolves its host up front, for a clear error before connecting
+async function assertAllowedTarget(url: URL, blockList: net.BlockList): Promise<void> {
+    if (!['http:', 'https:'].includes(url.protocol)) {
+        throw reject('UNSUPPORTED_URL', `Only http and https URLs are supported (got ${url.protocol}).`);
+    }
+    if (url.username || url.password) {
+        throw reject('UNSUPPORTED_URL', 'URLs with embedded credentials are not allowed.');
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    let addresses: string[];
+    if (net.isIP(hostname)) {
+        addresses = [hostname];
+    } else {
+        try {
+            addresses = (await dns.promises.lookup(hostname, { all: true })).map(entry => entry.address);
+        } catch (lookupError: unknown) {
+            console.warn(`DEBUG: DNS lookup failed for ${hostname}:`, lookupError instanceof Error ? lookupError.message : lookupError);
+            throw reject('UNSUPPORTED_URL', `Could not resolve host "${hostname}".`);
+        }
+    }
+    const blocked = addresses.find(address => isBlocked(address, blockList));
+    if (blocked || addresses.length === 0) {
+        console.warn(`DEBUG: Blocked fetch to ${url.toString()} (resolves to ${blocked ?? 'nothing'}).`);
+        throw reject('BLOCKED_ADDRESS', 'This URL points to a private or internal network address and cannot be analyzed.');
+    }
+}
+
+// Matches a Content-Type header against the allowed media types
+const isAllowedContentType = (contentType: string, allowed: string[]): boolean => {
+    const mediaType = contentType.split(';')[0].trim().toLowerCase();
+    return allowed.some(pattern => pattern.endsWith('/*')
+        ? mediaType.startsWith(pattern.slice(0, -1))
+        : mediaType === pattern);
+};
+
+export async function safeFetch(rawUrl: string, options: SafeFetchOptions): Promise<SafeFetchResult> {
+    let currentUrl: URL;
+    try {
+        currentUrl = new URL(rawUrl);
+    } catch {
+        throw reject('UNSUPPORTED_URL', 'Invalid URL format provided');
+    }
+
+    const blockList = options.blockList ?? defaultBlockList;
+    const maxRedirects = options.maxRedirects ?? 5;
+    const lookup = createGuardedLookup(blockList);
+    const httpAgent = new http.Agent({ lookup });
+    const httpsAgent = new https.Agent({ lookup });
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), options.timeoutMs ?? 15000);
+    const abortFromCaller = () => controller.abort();
+    options.signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+    try {
+        for (let redirects = 0; ; redirects++) {
+            await assertAllowedTarget(currentUrl, blockList);
+
+            const response = await fetch(currentUrl.toString(), {
+                headers: {
+                    'User-Agent': 'SmartStorySuiteBot/1.0 (+https://your-domain.com/bot-info)',
+                    'Accept': options.accept,
+                    ...(options.referer ? { 'Referer': options.referer } : {}),
+                },
+                redirect: 'manual',
+                size: options.maxBytes,
+                agent: (parsedUrl: URL) => parsedUrl.protocol === 'https:' ? httpsAgent : httpAgent,
+                signal: controller.signal,
+            });
+
+            // --- Redirects: follow manually so every hop is re-validated ---
+            if (response.status >= 300 && response.status < 400 && response.headers.has('location')) {
+                response.body?.resume?.();
+                if (redirects >= maxRedirects) {
+                    throw reject('TOO_MANY_REDIRECTS', `Too many redirects (more than ${maxRedirects}).`);
+                }
+                const location = response.headers.get('location') as string;
+                try {
+                    currentUrl = new URL(location, currentUrl);
+                } catch {
+                    throw reject('UNSUPPORTED_URL', `Redirected to an invalid URL ("${location}").`);
+                }
+                console.log(`DEBUG: Following redirect ${redirects + 1}/${maxRedirects} to ${currentUrl.toString()}`);
+                continue;
+            }
+
+            // --- Up-front checks before reading the body ---
+            // A response that doesn't name its type is refused too, rather than parsed as whatever it is
+            const contentType = response.headers.get('content-type');
+            if (response.ok && (!contentType || !isAllowedContentType(contentType, options.allowedContentTypes))) {
+                response.body?.resume?.();
+                const received = contentType ? `Unsupported content type "${contentType.split(';')[0]}"` : 'The response has no content type';
+                throw reject('UNSUPPORTED_CONTENT_TYPE', `${received}. Expected ${options.allowedContentTypes.join(', ')}.`);
+            }
+            const declaredLength = parseInt(response.headers.get('content-length') || '', 10);
+            if (Number.isFinite(declaredLength) && declaredLength > options.maxBytes) {
+                response.body?.resume?.();
+                throw reject('RESPONSE_TOO_LARGE', `Response is too large (${declaredLength} bytes; limit is ${options.maxBytes}).`);
+            }
+
+            const body = Buffer.from(await response.arrayBuffer());
+            return { body, status: response.status, statusText: response.statusText, contentType, finalUrl: currentUrl.toString(), redirects };
+        }
+    } catch (fetchError: unknown) {
+        if (fetchError instanceof PipelineError) throw fetchError;
+        const typed = fetchError as { type?: string; code?: string; name?: string };
+        if (typed?.type === 'max-size') {
+            throw reject('RESPONSE_TOO_LARGE', `Response is too large (limit is ${options.maxBytes} bytes).`);
+        }
+        if (typed?.code === 'EBLOCKEDADDRESS') {
+            throw reject('BLOCKED_ADDRESS', 'This URL points to a private or internal network address and cannot be analyzed.');
+        }
+        if (options.signal?.aborted) {
+            throw options.signal.reason ?? fetchError;
+        }
+        throw fetchError;
+    } finally {
+        clearTimeout(timeoutId);
+        options.signal?.removeEventListener('abort', abortFromCaller);
+        httpAgent.destroy();
+        httpsAgent.destroy();
+    }
+}
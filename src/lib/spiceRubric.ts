@@ -0,0 +1,92 @@
+// src/lib/spiceRubric.ts
+// The SPICE engagement rubric. Used to build the analysis prompt, to score the structural
+// criteria in code, and to show writers which criteria a story met, so none of them can drift
+// apart. Criteria are numbered from 1.
+import type { SpiceDimension, SpiceDimensionName, StructureFeatures } from '@/lib/types';
+
+export interface SpiceCriterion {
+    text: string;
+    // Decides the criterion from the article's structure; criteria without one are judged by the model
+    detect?: (features: StructureFeatures) => boolean;
+}
+
+export interface SpiceRubricDimension {
+    key: SpiceDimension;
+    name: SpiceDimensionName; // Key used for justifications and criteriaMet
+    label: string;
+    criteria: SpiceCriterion[];
+}
+
+export const SPICE_RUBRIC: SpiceRubricDimension[] = [
+    {
+        key: 's',
+        name: 'scannability',
+        label: 'Scannability',
+        criteria: [
+            { text: 'Contains bullet points or numbered lists (`<ul>`, `<ol>`, `<li>`).', detect: f => f.listCount > 0 },
+            { text: 'Has clear, descriptive headings/subheadings (beyond just the main title).', detect: f => f.subheadingCount > 0 },
+            { text: 'Uses consistently short paragraphs (mostly 3-4 sentences or less).', detect: f => f.paragraphCount >= 3 && f.shortParagraphRatio >= 0.8 },
+            { text: 'Highlights important keywords/phrases (bold, italic).', detect: f => f.emphasisCount >= 2 },
+            { text: 'Includes visual breaks (images inferred from context, blockquotes, distinct sections).', detect: f => f.imageCount + f.blockquoteCount > 0 },
+        ],
+    },
+    {
+        key: 'p',
+        name: 'personalization',
+        label: 'Personalization',
+        criteria: [
+            { text: 'Uses second-person language ("you", "your").' },
+            { text: 'Directly addresses reader concerns, goals, or motivations.' },
+            { text: 'Provides examples/scenarios relevant to a specific audience implied by the text.' },
+            { text: 'Recommends specific actions for the reader.' },
+            { text: 'Uses a tone/complexity appropriate for a specific (inferred) audience knowledge level.' },
+        ],
+    },
+    {
+        key: 'i',
+        name: 'interactivity',
+        label: 'Interactivity',
+        criteria: [
+            { text: 'Mentions or implies quizzes, polls, or embedded forms.', detect: f => f.embedCount > 0 },
+            { text: 'Asks direct questions to the reader within the text.' },
+            { text: 'Describes clickable elements (buttons, jump links, widgets).', detect: f => f.buttonCount + f.jumpLinkCount > 0 },
+            { text: 'Mentions comment sections or reader reactions.' },
+            { text: 'Includes links described as leading to interactive tools, downloads, or resources.' },
+        ],
+    },
+    {
+        key: 'c',
+        name: 'curation',
+        label: 'Curation',
+        criteria: [
+            { text: 'Mentions or implies links to external sources/websites.', detect: f => f.externalLinkCount > 0 },
+            { text: 'Mentions or implies links to related internal content (from the same source).', detect: f => f.internalLinkCount > 0 },
+            { text: 'Summarizes insights clearly attributed to other sources within the text.' },
+            { text: 'Suggests next steps or further readings.' },
+            { text: 'Cites or references authoritative sources/experts by name or title.' },
+        ],
+    },
+    {
+        key: 'e',
+        name: 'emotion',
+        label: 'Emotion',
+        criteria: [
+            { text: 'Uses emotionally charged or empathetic language.' },
+            { text: 'Features relatable or compelling storytelling/narrative elements.' },
+            { text: 'Addresses common reader frustrations, hopes, or fears.' },
+            { text: 'Includes humor, inspiration, or surprise elements.' },
+            { text: 'Uses emotionally evocative imagery or metaphors in the language.' },
+        ],
+    },
+];
+
+// Renders the rubric as it appears in the analysis prompt, with numbered criteria. With
+// `markMeasured`, criteria that are scored from the article structure are tagged [MEASURED].
+export function formatRubricForPrompt(markMeasured = false): string {
+    return SPICE_RUBRIC.map((dimension, index) => {
+        const criteria = dimension.criteria.map((criterion, criterionIndex) =>
+            `    *   (${criterionIndex + 1}) ${criterion.text}${markMeasured && criterion.detect ? ' [MEASURED]' : ''}`
+        ).join('\n');
+        return `${index + 1}.  **${dimension.label} (${dimension.key.toUpperCase()}):** Award +1 point for each (max 5):\n${criteria}`;
+    }).join('\n');
+}
@@ -0,0 +1,69 @@
+// src/lib/spiceScoring.ts
+// Hybrid SPICE scoring: criteria with a `detect` rule in SPICE_RUBRIC are decided from the
+// measured article structure, the rest keep the model's judgement, and each dimension's score
+// is recomputed from the combined criteria (base 1, +1 per criterion met, max 5).
+import type { SpiceScoreClaudeResponse } from '@/lib/analyzeArticle';
+import { SPICE_RUBRIC } from '@/lib/spiceRubric';
+import type { SpiceDimensionName, SpiceScoreData, StructureFeatures } from '@/lib/types';
+
+const MAX_DIMENSION_SCORE = 5;
+
+// Model-only score, passed through as-is (pasted text or the body-text fallback has no structure)
+const fromModel = (spice: SpiceScoreClaudeResponse): SpiceScoreData => ({
+    s: spice.s,
+    p: spice.p,
+    i: spice.i,
+    c: spice.c,
+    e: spice.e,
+    total: spice.total,
+    justifications: spice.justifications,
+    ...(spice.criteriaMet ? { criteriaMet: spice.criteriaMet } : {}),
+    method: 'model',
+});
+
+export function applyStructuralScoring(spice: SpiceScoreClaudeResponse | null, structure: StructureFeatures | null): SpiceScoreData | null {
+    if (!spice) return null; // The model judged the article too thin to score
+    if (!structure) return fromModel(spice);
+
+    const scored = fromModel(spice);
+    const justifications = { ...spice.justifications };
+    const criteriaMet: Partial<Record<SpiceDimensionName, number[]>> = {};
+
+    for (const dimension of SPICE_RUBRIC) {
+        const modelMet = spice.criteriaMet?.[dimension.name];
+        const allMeasured = dimension.criteria.every(criterion => criterion.detect);
+        const measuredMet: number[] = [];
+        const measuredMissed: number[] = [];
+        dimension.criteria.forEach((criterion, index) => {
+            if (!criterion.detect) return;
+            (criterion.detect(structure) ? measuredMet : measuredMissed).push(index + 1);
+        });
+        if (measuredMet.length + measuredMissed.length === 0) {
+            if (modelMet) criteriaMet[dimension.name] = modelMet;
+            continue;
+        }
+
+        // Without the model's criteria the judged part is unknown, so a partly measured score stays as the model gave it
+        if (!modelMet && !allMeasured) continue;
+
+        const judgedMet = (modelMet ?? []).filter(number => !dimension.criteria[number - 1]?.detect);
+        const met = [...measuredMet, ...judgedMet].sort((a, b) => a - b);
+        criteriaMet[dimension.name] = met;
+        scored[dimension.key] = Math.min(MAX_DIMENSION_SCORE, 1 + met.length);
+
+        const measuredNote = `Measured from the article structure: ${measuredMet.length} of ${measuredMet.length + measuredMissed.length} structural criteria met.`;
+        justifications[dimension.name] = allMeasured
+            ? measuredNote
+            : `${justifications[dimension.name]} ${measuredNote}`;
+    }
+
+    scored.total = scored.s + scored.p + scored.i + scored.c + scored.e;
+    scored.justifications = justifications;
+    if (Object.keys(criteriaMet).length > 0) {
+        scored.criteriaMet = criteriaMet;
+    } else {
+        delete scored.criteriaMet;
+    }
+    scored.method = 'hybrid';
+    return scored;
+}
@@ -0,0 +1,65 @@
+// src/lib/storyStore.ts
+// Saved stories behind the /story/[id] permalinks. Unlike the analysis cache, entries never
+// expire: a shared link keeps working. The id is a hash of the story's content, and a saved
+// story is never rewritten, so a link always shows what was shared; re-analyzing an article
+// saves a new story under a new id.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { StoryData } from '@/lib/types';
+
+const STORE_VERSION = 1;
+const STORY_ID_PATTERN = /^[a-f0-9]{16}$/;
+
+export interface SavedStory {
+    version: number; // Kept for migrations; older entries are still served
+    id: string;
+    savedAt: string;
+    story: StoryData;
+}
+
+const getStoreDir = (): string => process.env.STORY_STORE_DIR || path.join(process.cwd(), '.data', 'stories');
+
+export const isStoryId = (value: unknown): value is string => typeof value === 'string' && STORY_ID_PATTERN.test(value);
+
+export function storyIdFor(story: StoryData): string {
+    return createHash('sha256').update(JSON.stringify(story)).digest('hex').slice(0, 16);
+}
+
+const entryPath = (id: string): string => path.join(getStoreDir(), `${id}.json`);
+
+// Returns the saved story, or null for an unknown or malformed id
+export async function readSavedStory(id: string): Promise<SavedStory | null> {
+    if (!isStoryId(id)) return null;
+    try {
+        return JSON.parse(await fs.readFile(entryPath(id), 'utf8'));
+    } catch (readError: unknown) {
+        if ((readError as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+            console.warn(`DEBUG: Could not read saved story ${id}:`, readError);
+        }
+        return null;
+    }
+}
+
+// Saves the story under its content id and returns it with the id set. The same content is only
+// written once. On failure the error is logged and the story is returned without an id, so the
+// UI offers no link that wouldn't open.
+export async function saveStory(story: StoryData): Promise<StoryData> {
+    const id = storyIdFor(story);
+    const now = Date.now();
+    const saved: SavedStory = { version: STORE_VERSION, id, savedAt: new Date(now).toISOString(), story: { ...story, id } };
+    const target = entryPath(id);
+    const tempFile = `${target}.${process.pid}.${now}.tmp`;
+    try {
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        if (await fs.access(target).then(() => true, () => false)) return saved.story;
+        await fs.writeFile(tempFile, JSON.stringify(saved), 'utf8');
+        await fs.rename(tempFile, target);
+        console.log(`DEBUG: Saved story ${id} (${story.originalUrl || 'pasted content'}).`);
+        return saved.story;
+    } catch (writeError: unknown) {
+        console.warn(`DEBUG: Could not save story ${id}:`, writeError);
+        await fs.unlink(tempFile).catch(() => {});
+        return story;
+    }
+}
@@ -0,0 +1,101 @@
+// src/lib/structureFeatures.ts
+// Deterministic structural facts about an article, measured from Readability's `article.content`
+// HTML. The model only ever sees plain text, so anything the SPICE rubric asks about markup
+// (lists, headings, emphasis, links, blockquotes) is counted here instead.
+import { JSDOM } from 'jsdom';
+import { splitSentences } from '@/lib/chunking';
+import type { StructureFeatures } from '@/lib/types';
+
+const SHORT_PARAGRAPH_SENTENCES = 4;
+const EMBED_SELECTOR = 'form, input, select, textarea, iframe, video, audio, embed, object';
+
+const hostWithoutWww = (hostname: string): string => hostname.toLowerCase().replace(/^www\./, '');
+
+// Counts the structural features of an article's content HTML. `articleUrl` resolves relative
+// links and decides which links are internal (same site) or external.
+export function extractStructureFeatures(contentHtml: string, articleUrl: string): StructureFeatures {
+    const { document } = new JSDOM(`<body>${contentHtml}</body>`, { url: articleUrl }).window;
+    const body = document.body;
+    let articleHost = '';
+    try {
+        articleHost = hostWithoutWww(new URL(articleUrl).hostname);
+    } catch {
+        // about:blank for pasted HTML: only relative links can be internal
+    }
+
+    // --- Lists (ignoring empty ones left behind by stripped widgets) ---
+    const lists = [...body.querySelectorAll('ul, ol')].filter(list => list.querySelector('li'));
+    const listItemCount = lists.reduce((count, list) => count + list.querySelectorAll(':scope > li').length, 0);
+
+    // --- Paragraph lengths ---
+    const paragraphs = [...body.querySelectorAll('p')]
+        .map(p => p.textContent?.replace(/\s+/g, ' ').trim() ?? '')
+        .filter(text => text.length > 0);
+    const sentenceCounts = paragraphs.map(text => splitSentences(text).length);
+    const shortParagraphs = sentenceCounts.filter(count => count <= SHORT_PARAGRAPH_SENTENCES).length;
+
+    // --- Emphasis (inside running text, not headings) ---
+    const emphasisCount = [...body.querySelectorAll('strong, b, em, i, mark')]
+        .filter(el => !el.closest('h1, h2, h3, h4, h5, h6') && (el.textContent?.trim().length ?? 0) > 1).length;
+
+    // --- Images: a <figure> or <picture> counts once however many <img> it wraps ---
+    const imageCount = body.querySelectorAll('figure, picture').length
+        + [...body.querySelectorAll('img')].filter(img => !img.closest('figure, picture')).length;
+
+    // --- Links ---
+    let internalLinkCount = 0;
+    let externalLinkCount = 0;
+    let jumpLinkCount = 0;
+    body.querySelectorAll('a[href]').forEach(link => {
+        const href = link.getAttribute('href')?.trim() ?? '';
+        if (href.startsWith('#')) {
+            if (href.length > 1) jumpLinkCount++;
+            return;
+        }
+        let target: URL;
+        try {
+            target = new URL(href, articleUrl);
+        } catch {
+            return;
+        }
+        if (!['http:', 'https:'].includes(target.protocol)) return; // mailto:, javascript:, ...
+        const isRelative = !/^[a-z][a-z\d+.-]*:|^\/\//i.test(href);
+        if (isRelative || (articleHost && hostWithoutWww(target.hostname) === articleHost)) {
+            internalLinkCount++;
+        } else {
+            externalLinkCount++;
+        }
+    });
+
+    return {
+        listCount: lists.length,
+        listItemCount,
+        subheadingCount: body.querySelectorAll('h2, h3, h4, h5, h6').length,
+        paragraphCount: paragraphs.length,
+        shortParagraphRatio: paragraphs.length > 0 ? Math.round((shortParagraphs / paragraphs.length) * 100) / 100 : 0,
+        averageSentencesPerParagraph: paragraphs.length > 0
+            ? Math.round((sentenceCounts.reduce((sum, count) => sum + count, 0) / paragraphs.length) * 10) / 10
+            : 0,
+        emphasisCount,
+        imageCount,
+        blockquoteCount: body.querySelectorAll('blockquote').length,
+        internalLinkCount,
+        externalLinkCount,
+        jumpLinkCount,
+        buttonCount: body.querySelectorAll('button, [role="button"]').length,
+        embedCount: body.querySelectorAll(EMBED_SELECTOR).length,
+    };
+}
+
+// Plain-language list of the measured facts, for the analysis prompt
+export function describeStructureFeatures(features: StructureFeatures): string {
+    return [
+        `- Lists: ${features.listCount} (${features.listItemCount} items)`,
+        `- Subheadings: ${features.subheadingCount}`,
+        `- Paragraphs: ${features.paragraphCount} (${Math.round(features.shortParagraphRatio * 100)}% with ${SHORT_PARAGRAPH_SENTENCES} sentences or fewer; ${features.averageSentencesPerParagraph} sentences on average)`,
+        `- Emphasized phrases (bold/italic): ${features.emphasisCount}`,
+        `- Images: ${features.imageCount}; blockquotes: ${features.blockquoteCount}`,
+        `- Links: ${features.externalLinkCount} external, ${features.internalLinkCount} internal, ${features.jumpLinkCount} in-page jump links`,
+        `- Buttons: ${features.buttonCount}; embeds/forms: ${features.embedCount}`,
+    ].join('\n');
+}
@@ -0,0 +1,355 @@
+// src/lib/structuredMetadata.ts
+// Publication metadata from the three places publishers put it: schema.org JSON-LD blocks
+// (including @graph arrays), schema.org Microdata, and Open Graph / article meta tags. Each field
+// is taken from the first source that has a value, in that order, and `sources` records which
+// one it came from. Microdata items are converted to the JSON-LD shape so both share one reader.
+import type {
+    MetadataImage,
+    MetadataOrganization,
+    MetadataPerson,
+    MetadataSource,
+    PublicationField,
+    PublicationMetadata,
+} from '@/lib/types';
+
+type JsonObject = Record<string, unknown>;
+
+// What one source supplies; empty values mean the source doesn't have the field
+type PublicationValues = Omit<PublicationMetadata, 'sources'>;
+
+// schema.org types that describe the article itself
+const ARTICLE_TYPE_PATTERN = /^(?:\w*Article|BlogPosting|LiveBlogPosting|SocialMediaPosting|Report)$/;
+const PUBLICATION_FIELDS: PublicationField[] = ['headline', 'publisher', 'authors', 'datePublished', 'dateModified', 'section', 'keywords', 'images'];
+const MAX_KEYWORDS = 20;
+const MAX_IMAGES = 10;
+const MAX_NESTING = 5;
+
+// --- Value Helpers ---
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const toArray = (value: unknown): unknown[] => (value === undefined || value === null ? [] : Array.isArray(value) ? value : [value]);
+const first = (value: unknown): unknown => toArray(value)[0];
+
+const cleanText = (value: unknown): string | null => {
+    if (typeof value !== 'string' && typeof value !== 'number') return null;
+    const text = String(value).replace(/\s+/g, ' ').trim();
+    return text || null;
+};
+
+// Absolute http(s) URL, or null
+const resolveHttpUrl = (value: unknown, baseUrl: string): string | null => {
+    const text = cleanText(value);
+    if (!text) return null;
+    try {
+        const resolved = new URL(text, baseUrl);
+        return ['http:', 'https:'].includes(resolved.protocol) ? resolved.toString() : null;
+    } catch {
+        return null;
+    }
+};
+
+// Pixel size from a number, a numeric string ("1200", "1200px") or a QuantitativeValue
+const toDimension = (value: unknown): number | null => {
+    const raw = isObject(value) ? value.value : first(value);
+    const parsed = typeof raw === 'number' ? raw : parseInt(String(raw ?? ''), 10);
+    return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : null;
+};
+
+const isUrlLike = (text: string): boolean => /^(?:https?:)?\/\//i.test(text);
+
+const dedupeBy = <T>(items: T[], key: (item: T) => string): T[] => {
+    const seen = new Set<string>();
+    return items.filter(item => {
+        const itemKey = key(item);
+        if (seen.has(itemKey)) return false;
+        seen.add(itemKey);
+        return true;
+    });
+};
+
+const schemaTypes = (node: JsonObject): string[] =>
+    toArray(node['@type'])
+        .filter((type): type is string => typeof type === 'string')
+        .map(type => type.replace(/^https?:\/\/(?:www\.)?schema\.org\//i, ''));
+
+const isArticleNode = (node: JsonObject): boolean => schemaTypes(node).some(type => ARTICLE_TYPE_PATTERN.test(type));
+
+const emptyValues = (): PublicationValues => ({
+    headline: null,
+    publisher: null,
+    authors: [],
+    datePublished: null,
+    dateModified: null,
+    section: null,
+    keywords: [],
+    images: [],
+});
+
+export const emptyPublicationMetadata = (): PublicationMetadata => ({ ...emptyValues(), sources: {} });
+
+// --- Shared schema.org Reader (JSON-LD nodes and converted Microdata items) ---
+type Resolve = (value: unknown) => unknown;
+
+const readPerson = (value: unknown, resolve: Resolve, baseUrl: string): MetadataPerson | null => {
+    const node = resolve(value);
+    if (typeof node === 'string') {
+        const name = cleanText(node)?.replace(/^by\s+/i, '');
+        return name && !isUrlLike(name) ? { name, url: null } : null;
+    }
+    if (!isObject(node)) return null;
+    const name = cleanText(first(node.name)) ?? cleanText([first(node.givenName), first(node.familyName)].filter(Boolean).join(' '));
+    if (!name) return null;
+    return { name: name.replace(/^by\s+/i, ''), url: resolveHttpUrl(first(node.url), baseUrl) };
+};
+
+const readImage = (value: unknown, resolve: Resolve, baseUrl: string): MetadataImage | null => {
+    const node = resolve(value);
+    if (!isObject(node)) {
+        const url = resolveHttpUrl(node, baseUrl);
+        return url ? { url, width: null, height: null, caption: null } : null;
+    }
+    const url = resolveHttpUrl(first(node.url), baseUrl) ?? resolveHttpUrl(first(node.contentUrl), baseUrl);
+    if (!url) return null;
+    return {
+        url,
+        width: toDimension(node.width),
+        height: toDimension(node.height),
+        caption: cleanText(first(node.caption)) ?? cleanText(first(node.description)),
+    };
+};
+
+const readOrganization = (value: unknown, resolve: Resolve, baseUrl: string): MetadataOrganization | null => {
+    const node = resolve(value);
+    if (typeof node === 'string') {
+        const name = cleanText(node);
+        return name && !isUrlLike(name) ? { name, url: null, logoUrl: null } : null;
+    }
+    if (!isObject(node)) return null;
+    const name = cleanText(first(node.name));
+    if (!name) return null;
+    return {
+        name,
+        url: resolveHttpUrl(first(node.url), baseUrl),
+        logoUrl: readImage(first(node.logo), resolve, baseUrl)?.url ?? null,
+    };
+};
+
+const readKeywords = (values: unknown[]): string[] =>
+    dedupeBy(
+        values
+            .flatMap(value => (typeof value === 'string' ? value.split(',') : [value]))
+            .map(cleanText)
+            .filter((keyword): keyword is string => keyword !== null),
+        keyword => keyword.toLowerCase()
+    ).slice(0, MAX_KEYWORDS);
+
+function readArticleNode(node: JsonObject, resolve: Resolve, baseUrl: string): PublicationValues {
+    const authors = toArray(node.author).concat(toArray(node.creator))
+        .map(author => readPerson(author, resolve, baseUrl))
+        .filter((author): author is MetadataPerson => author !== null);
+    const images = toArray(node.image).concat(toArray(node.thumbnailUrl))
+        .map(image => readImage(image, resolve, baseUrl))
+        .filter((image): image is MetadataImage => image !== null);
+
+    return {
+        headline: cleanText(first(node.headline)) ?? cleanText(first(node.name)),
+        publisher: readOrganization(first(node.publisher), resolve, baseUrl),
+        authors: dedupeBy(authors, author => author.name.toLowerCase()),
+        datePublished: cleanText(first(node.datePublished)) ?? cleanText(first(node.dateCreated)),
+        dateModified: cleanText(first(node.dateModified)),
+        section: cleanText(first(node.articleSection)),
+        keywords: readKeywords(toArray(node.keywords)),
+        images: dedupeBy(images, image => image.url).slice(0, MAX_IMAGES),
+    };
+}
+
+// --- JSON-LD ---
+
+// Every JSON-LD block on the page. Tolerates comment/CDATA wrappers and raw control characters
+// inside strings; blocks that still don't parse are skipped.
+function readJsonLdBlocks(document: Document): unknown[] {
+    const blocks: unknown[] = [];
+    document.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+        const text = (script.textContent || '')
+            .trim()
+            .replace(/^(?:<!--|\/\*\s*<!\[CDATA\[\s*\*\/)/, '')
+            .replace(/(?:-->|\/\*\s*\]\]>\s*\*\/)$/, '')
+            .trim();
+        if (!text) return;
+        try {
+            blocks.push(JSON.parse(text));
+        } catch {
+            try {
+                blocks.push(JSON.parse(text.replace(/[\u0000-\u001f]+/g, ' ')));
+            } catch (parseError: unknown) {
+                console.warn(`DEBUG: Skipping unparseable JSON-LD block: ${parseError instanceof Error ? parseError.message : parseError}`);
+            }
+        }
+    });
+    return blocks;
+}
+
+// Flattens top-level objects, arrays, @graph members and mainEntity into one list of nodes
+function collectNodes(value: unknown, nodes: JsonObject[], depth = 0): JsonObject[] {
+    if (depth > MAX_NESTING) return nodes;
+    if (Array.isArray(value)) {
+        value.forEach(item => collectNodes(item, nodes, depth + 1));
+    } else if (isObject(value)) {
+        nodes.push(value);
+        collectNodes(value['@graph'], nodes, depth + 1);
+        collectNodes(value.mainEntity, nodes, depth + 1);
+    }
+    return nodes;
+}
+
+// Same page, ignoring the fragment and a trailing slash
+const samePage = (a: string | null, b: string): boolean => {
+    if (!a) return false;
+    const normalize = (url: string) => url.replace(/#.*$/, '').replace(/\/$/, '');
+    return normalize(a) === normalize(b);
+};
+
+function readJsonLd(document: Document, articleUrl: string): PublicationValues {
+    const nodes = readJsonLdBlocks(document).flatMap(block => collectNodes(block, []));
+
+    // { "@id": ... } references point at full nodes elsewhere in the graph
+    const nodesById = new Map<string, JsonObject>();
+    for (const node of nodes) {
+        const id = node['@id'];
+        if (typeof id !== 'string') continue;
+        const existing = nodesById.get(id);
+        if (!existing || Object.keys(node).length > Object.keys(existing).length) nodesById.set(id, node);
+    }
+    const resolve: Resolve = (value) =>
+        isObject(value) && typeof value['@id'] === 'string' ? nodesById.get(value['@id']) ?? value : value;
+
+    const articles = nodes.map(node => resolve(node) as JsonObject).filter(isArticleNode);
+    if (articles.length === 0) return emptyValues();
+
+    // Pages that describe several articles (related stories, live blogs) name the main one by URL
+    const mainArticle = articles.find(node =>
+        [first(node.url), node['@id'], first(node.mainEntityOfPage)].some(reference => {
+            const resolved = resolve(reference);
+            const url = isObject(resolved) ? first(resolved['@id']) ?? first(resolved.url) : resolved;
+            return samePage(resolveHttpUrl(url, articleUrl), articleUrl);
+        })
+    ) ?? articles.find(node => node.headline) ?? articles[0];
+
+    return readArticleNode(mainArticle, resolve, articleUrl);
+}
+
+// --- Microdata ---
+const URL_ATTRIBUTES: Record<string, string> = {
+    a: 'href', link: 'href', area: 'href',
+    img: 'src', audio: 'src', video: 'src', source: 'src', iframe: 'src', embed: 'src', track: 'src',
+    object: 'data', time: 'datetime', data: 'value', meter: 'value', meta: 'content',
+};
+
+const readMicrodataValue = (element: Element): string | null => {
+    const attribute = URL_ATTRIBUTES[element.tagName.toLowerCase()];
+    const value = element.getAttribute('content') ?? (attribute ? element.getAttribute(attribute) : null) ?? element.textContent;
+    return cleanText(value);
+};
+
+// Converts an itemscope element to a JSON-LD style node (every property holds an array)
+function readMicrodataItem(scope: Element, depth = 0): JsonObject {
+    const item: JsonObject = { '@type': (scope.getAttribute('itemtype') || '').split(/\s+/).filter(Boolean) };
+    scope.querySelectorAll('[itemprop]').forEach(element => {
+        if (element.parentElement?.closest('[itemscope]') !== scope) return; // Belongs to a nested item
+        const value = element.hasAttribute('itemscope')
+            ? (depth < MAX_NESTING ? readMicrodataItem(element, depth + 1) : null)
+            : readMicrodataValue(element);
+        if (value === null) return;
+        for (const name of (element.getAttribute('itemprop') || '').split(/\s+/).filter(Boolean)) {
+            item[name] = [...toArray(item[name]), value];
+        }
+    });
+    return item;
+}
+
+function readMicrodata(document: Document, articleUrl: string): PublicationValues {
+    const scope = [...document.querySelectorAll('[itemscope][itemtype]')]
+        .find(element => isArticleNode({ '@type': (element.getAttribute('itemtype') || '').split(/\s+/) }));
+    if (!scope) return emptyValues();
+    return readArticleNode(readMicrodataItem(scope), value => value, articleUrl);
+}
+
+// --- Meta Tags ---
+function readMetaTags(document: Document, articleUrl: string): PublicationValues {
+    const contents = (selector: string): string[] =>
+        [...document.querySelectorAll(selector)]
+            .map(element => cleanText(element.getAttribute('content')))
+            .filter((content): content is string => content !== null);
+    // Values of the first selector that matches anything
+    const firstMatch = (...selectors: string[]): string[] => selectors.map(contents).find(values => values.length > 0) ?? [];
+
+    const siteName = firstMatch('meta[property="og:site_name"]')[0];
+    const authors = firstMatch(
+        'meta[name="author"]',
+        'meta[property="article:author"]',
+        'meta[name="article:author"]',
+        'meta[property="book:author"]'
+    ).map(name => readPerson(name, value => value, articleUrl)).filter((author): author is MetadataPerson => author !== null);
+
+    const imageUrl = firstMatch('meta[property="og:image"]', 'meta[property="og:image:url"]', 'meta[name="twitter:image"]', 'meta[name="twitter:image:src"]')[0];
+    const image = readImage(imageUrl, value => value, articleUrl);
+    if (imageUrl && !image) {
+        console.warn(`DEBUG: Discarding image meta tag "${imageUrl}": not an http(s) URL.`);
+    }
+
+    return {
+        headline: firstMatch('meta[property="og:title"]', 'meta[name="twitter:title"]')[0] ?? null,
+        publisher: siteName ? { name: siteName, url: null, logoUrl: null } : null,
+        authors: dedupeBy(authors, author => author.name.toLowerCase()),
+        datePublished: firstMatch(
+            'meta[property="article:published_time"]',
+            'meta[name="date"]',
+            'meta[name="pubdate"]',
+            'meta[name="timestamp"]'
+        )[0] ?? null,
+        dateModified: firstMatch('meta[property="article:modified_time"]', 'meta[property="og:updated_time"]')[0] ?? null,
+        section: firstMatch('meta[property="article:section"]')[0] ?? null,
+        keywords: readKeywords(firstMatch('meta[property="article:tag"]', 'meta[name="news_keywords"]', 'meta[name="keywords"]')),
+        images: image
+            ? [{
+                ...image,
+                width: toDimension(firstMatch('meta[property="og:image:width"]')[0]),
+                height: toDimension(firstMatch('meta[property="og:image:height"]')[0]),
+                caption: firstMatch('meta[property="og:image:alt"]', 'meta[name="twitter:image:alt"]')[0] ?? null,
+            }]
+            : [],
+    };
+}
+
+// --- Merge ---
+const hasValue = (value: unknown): boolean => (Array.isArray(value) ? value.length > 0 : value !== null);
+
+export function extractPublicationMetadata(document: Document, articleUrl: string): PublicationMetadata {
+    // Highest precedence first
+    const readers: [MetadataSource, (document: Document, articleUrl: string) => PublicationValues][] = [
+        ['json-ld', readJsonLd],
+        ['microdata', readMicrodata],
+        ['meta', readMetaTags],
+    ];
+    const layers = readers.map(([source, read]): [MetadataSource, PublicationValues] => {
+        try {
+            return [source, read(document, articleUrl)];
+        } catch (readError: unknown) {
+            console.warn(`DEBUG: Error reading ${source} metadata for ${articleUrl}:`, readError);
+            return [source, emptyValues()];
+        }
+    });
+
+    const merged = emptyValues();
+    const sources: PublicationMetadata['sources'] = {};
+    const take = <K extends PublicationField>(field: K) => {
+        const layer = layers.find(([, values]) => hasValue(values[field]));
+        if (!layer) return;
+        merged[field] = layer[1][field];
+        sources[field] = layer[0];
+    };
+    PUBLICATION_FIELDS.forEach(take);
+
+    const found = PUBLICATION_FIELDS.filter(field => sources[field]).map(field => `${field} (${sources[field]})`);
+    console.log(`DEBUG: Publication metadata for ${articleUrl}: ${found.join(', ') || 'none found'}`);
+    return { ...merged, sources };
+}
@@ -0,0 +1,75 @@
+// src/lib/textMetrics.ts
+// Readability and text statistics computed from the extracted article text, without the model:
+// Flesch reading ease and Flesch-Kincaid grade, sentence and paragraph lengths, a passive voice
+// estimate and reading times. These are the objective counterpart to SPICE Scannability.
+// Syllables and passives are counted with English heuristics, so treat them as approximate.
+import { splitParagraphs, splitSentences } from '@/lib/chunking';
+import type { FactSection, SectionReadingTime, TextMetrics } from '@/lib/types';
+
+// Average adult silent reading speed for non-fiction
+const WORDS_PER_MINUTE = 238;
+
+// Past participles that don't end in -ed, for the passive voice check
+const IRREGULAR_PARTICIPLES = [
+    'arisen', 'awoken', 'beaten', 'become', 'begun', 'bent', 'bitten', 'blown', 'born', 'borne', 'bought', 'bound',
+    'broken', 'brought', 'built', 'burnt', 'caught', 'chosen', 'cut', 'dealt', 'done', 'drawn', 'driven', 'eaten',
+    'fallen', 'felt', 'fought', 'found', 'forbidden', 'forgiven', 'forgotten', 'frozen', 'given', 'grown', 'heard',
+    'held', 'hidden', 'hit', 'hung', 'hurt', 'kept', 'known', 'laid', 'led', 'left', 'lent', 'lost', 'made', 'meant',
+    'met', 'paid', 'put', 'ridden', 'said', 'seen', 'sent', 'set', 'shaken', 'shot', 'shown', 'shut', 'sold', 'sought',
+    'spent', 'spoken', 'spread', 'stolen', 'struck', 'sung', 'sunk', 'taken', 'taught', 'thrown', 'told', 'thought',
+    'understood', 'won', 'worn', 'woven', 'written',
+];
+// A form of "to be", an optional adverb, then a past participle ("was quickly removed", "is known")
+const PASSIVE_PATTERN = new RegExp(
+    `\\b(?:am|is|are|was|were|be|been|being)\\s+(?:[a-z]+ly\\s+)?(?:(?!(?:indeed|need|hundred|red|bed|shed)\\b)[a-z]+ed|${IRREGULAR_PARTICIPLES.join('|')})\\b`,
+    'i'
+);
+
+const round = (value: number, places: number): number => {
+    const factor = 10 ** places;
+    return Math.round(value * factor) / factor;
+};
+
+// Words are whitespace-separated tokens with at least one letter or digit (a lone dash is not a word)
+const wordsOf = (text: string): string[] => text.split(/\s+/).filter(token => /[\p{L}\p{N}]/u.test(token));
+
+// Vowel groups, less a silent final "e"/"es"/"ed"; every word has at least one syllable (numbers count as one)
+const countSyllables = (word: string): number => {
+    const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+    if (letters.length <= 3) return 1;
+    const trimmed = letters.replace(/(?:[^laeiouy]es|[^laeiouy]e|ed)$/, '').replace(/^y/, '');
+    return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 0);
+};
+
+const readingSeconds = (wordCount: number): number => Math.round((wordCount / WORDS_PER_MINUTE) * 60);
+
+export function computeTextMetrics(articleText: string, sections: FactSection[]): TextMetrics {
+    const paragraphs = splitParagraphs(articleText);
+    const sentences = paragraphs.flatMap(splitSentences);
+    const words = wordsOf(articleText);
+    const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+    const passiveSentences = sentences.filter(sentence => PASSIVE_PATTERN.test(sentence)).length;
+
+    // Flesch formulas need at least one sentence and one word
+    const wordsPerSentence = words.length / Math.max(1, sentences.length);
+    const syllablesPerWord = syllables / Math.max(1, words.length);
+    const hasText = words.length > 0;
+
+    const sectionTimes: SectionReadingTime[] = sections.map(section => {
+        const wordCount = wordsOf(section.content).length;
+        return { sectionId: section.id, wordCount, readingTimeSeconds: readingSeconds(wordCount) };
+    });
+
+    return {
+        wordCount: words.length,
+        sentenceCount: sentences.length,
+        paragraphCount: paragraphs.length,
+        averageSentenceWords: round(wordsPerSentence, 1),
+        averageParagraphWords: round(words.length / Math.max(1, paragraphs.length), 1),
+        fleschReadingEase: hasText ? round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord, 1) : 0,
+        fleschKincaidGrade: hasText ? round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59, 1) : 0,
+        passiveVoiceRatio: sentences.length > 0 ? round(passiveSentences / sentences.length, 2) : 0,
+        readingTimeMinutes: hasText ? Math.max(1, Math.round(words.length / WORDS_PER_MINUTE)) : 0,
+        sections: sectionTimes,
+    };
+}
@@ -0,0 +1,163 @@
+// src/lib/timeline.ts
+// A timeline of the dated events an article describes. Events come from their own model request
+// (run alongside the main analysis, windowed like claims) and are checked like claims: an event
+// is kept only if its sentence is in the article. Common relative dates ("yesterday", "last
+// Tuesday", "two years ago") are worked out here from the publication date rather than trusted
+// to the model; other dates are the model's reading, checked for format.
+import type { AnalysisProvider } from '@/lib/analysisProvider';
+import type { AnalysisInput, ModelTimelineEvent } from '@/lib/analyzeArticle';
+import { buildTimelinePrompt } from '@/lib/analysisPrompts';
+import { validateTimeline } from '@/lib/analysisSchema';
+import { findSourceSentence } from '@/lib/claims';
+import { requestPerWindow } from '@/lib/longDocumentAnalysis';
+import { publisherDay } from '@/lib/publicationDates';
+import { indexSectionText, locateInSections, normalizeForMatch } from '@/lib/quotes';
+import type { AnalysisWarning, FactSection, PublicationDate, TimelineEvent } from '@/lib/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const NUMBER_WORDS: Record<string, number> = {
+    a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+    seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+// Words that make a date depend on when the article was written
+const RELATIVE_WORDS = /\b(?:ago|today|tonight|yesterday|tomorrow|last|next|this|past|coming)\b/i;
+
+export interface TimelineExtractionResult {
+    events: ModelTimelineEvent[] | null; // Null when every request failed
+    warnings: AnalysisWarning[];
+    calls: number;
+}
+
+// Asks the model for the dated events in each window
+export async function extractTimeline(input: AnalysisInput, provider: AnalysisProvider, signal?: AbortSignal): Promise<TimelineExtractionResult> {
+    const { results, warnings, calls } = await requestPerWindow(input, provider, {
+        name: 'timeline',
+        buildPrompt: buildTimelinePrompt,
+        validate: validateTimeline,
+        failureCode: 'timeline_failed',
+        failureMessage: failedPart => `Timeline events could not be extracted from ${failedPart}.`,
+    }, signal);
+    return {
+        events: results.every(result => result === null) ? null : results.flatMap(result => result?.events ?? []),
+        warnings,
+        calls,
+    };
+}
+
+// --- Relative dates (calendar arithmetic on YYYY-MM-DD days at UTC midnight) ---
+
+const toTime = (day: string): number => Date.parse(`${day}T00:00:00Z`);
+const addDays = (day: string, days: number): string => new Date(toTime(day) + days * DAY_MS).toISOString().slice(0, 10);
+
+const addMonths = (day: string, months: number): string => {
+    const date = new Date(toTime(day));
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + months);
+    return date.toISOString().slice(0, 7);
+};
+
+const addYears = (day: string, years: number): string => String(Number(day.slice(0, 4)) + years);
+
+// Monday to Sunday of the week `weeks` from the one containing `day`
+const weekOf = (day: string, weeks: number): { start: string; end: string } => {
+    const monday = addDays(day, -((new Date(toTime(day)).getUTCDay() + 6) % 7) + weeks * 7);
+    return { start: monday, end: addDays(monday, 6) };
+};
+
+const readCount = (word: string): number | null => /^\d+$/.test(word) ? Number(word) : NUMBER_WORDS[word] ?? null;
+
+// The date or range a relative expression names, counted from the publication day; null for
+// anything else (explicit dates, and bare weekdays, which can point either way)
+export function resolveRelativeDate(dateText: string, publishedDay: string): { start: string; end: string | null } | null {
+    const text = dateText.toLowerCase().replace(/[.,]/g, '').replace(/\s+/g, ' ').trim().replace(/^(?:on|in|during|as of) /, '');
+    const single = (start: string) => ({ start, end: null });
+
+    if (/^(?:today|tonight|this (?:morning|afternoon|evening))$/.test(text)) return single(publishedDay);
+    if (/^(?:yesterday(?: (?:morning|afternoon|evening))?|last night)$/.test(text)) return single(addDays(publishedDay, -1));
+    if (/^tomorrow(?: (?:morning|afternoon|evening|night))?$/.test(text)) return single(addDays(publishedDay, 1));
+
+    const ago = text.match(/^(\w+) (day|week|month|year)s? ago$/);
+    const count = ago ? readCount(ago[1]) : null;
+    if (ago && count !== null) {
+        if (ago[2] === 'day') return single(addDays(publishedDay, -count));
+        if (ago[2] === 'week') return weekOf(publishedDay, -count);
+        if (ago[2] === 'month') return single(addMonths(publishedDay, -count));
+        return single(addYears(publishedDay, -count));
+    }
+
+    const weekday = text.match(/^(last|next) (sunday|monday|tuesday|wednesday|thursday|friday|saturday)$/);
+    if (weekday) {
+        const from = new Date(toTime(publishedDay)).getUTCDay();
+        const to = WEEKDAYS.indexOf(weekday[2]);
+        // "Last Tuesday" written on a Tuesday is a week earlier, not the same day
+        return weekday[1] === 'last'
+            ? single(addDays(publishedDay, -((from - to + 7) % 7 || 7)))
+            : single(addDays(publishedDay, (to - from + 7) % 7 || 7));
+    }
+
+    const period = text.match(/^(last|this|next) (week|month|year)$/);
+    if (period) {
+        const step = period[1] === 'last' ? -1 : period[1] === 'next' ? 1 : 0;
+        if (period[2] === 'week') return weekOf(publishedDay, step);
+        if (period[2] === 'month') return single(addMonths(publishedDay, step));
+        return single(addYears(publishedDay, step));
+    }
+    return null;
+}
+
+// Keeps the events whose sentence is in the sections, with their dates worked out, in date order
+// (article order for the same date). Events that can't be dated are dropped.
+export function verifyTimeline(modelEvents: ModelTimelineEvent[], sections: FactSection[], publishedAt: PublicationDate | null): { timeline: TimelineEvent[]; warnings: AnalysisWarning[] } {
+    const normalized = indexSectionText(sections);
+    const publishedDay = publishedAt ? publisherDay(publishedAt) : null;
+    const seen = new Set<string>();
+    const located: Array<{ event: TimelineEvent; sectionIndex: number }> = [];
+    const warnings: AnalysisWarning[] = [];
+    const drop = (index: number, message: string) => warnings.push({ code: 'timeline_unverified', path: `timeline[${index}]`, message });
+
+    modelEvents.forEach((modelEvent, index) => {
+        const sectionIndex = locateInSections(modelEvent.sentence, modelEvent.section, normalized);
+        if (sectionIndex === null) {
+            drop(index, `Dropped the event "${modelEvent.description}": its supporting sentence is not in the article text.`);
+            return;
+        }
+
+        const resolved = publishedDay ? resolveRelativeDate(modelEvent.dateText, publishedDay) : null;
+        const relative = resolved !== null || RELATIVE_WORDS.test(modelEvent.dateText);
+        // Without a publication date, the model's reading of a relative date is a guess
+        if (relative && !publishedDay) {
+            drop(index, `Dropped the event "${modelEvent.description}": "${modelEvent.dateText}" is relative and the article has no publication date.`);
+            return;
+        }
+        const start = resolved?.start ?? modelEvent.start;
+        if (!start) {
+            drop(index, `Dropped the event "${modelEvent.description}": its date "${modelEvent.dateText}" could not be worked out.`);
+            return;
+        }
+
+        const key = `${start} ${normalizeForMatch(modelEvent.description)}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        located.push({
+            event: {
+                start,
+                end: resolved ? resolved.end : modelEvent.end,
+                dateText: modelEvent.dateText,
+                relative,
+                description: modelEvent.description,
+                sentence: findSourceSentence(modelEvent.sentence, sections[sectionIndex].content),
+                sectionId: sections[sectionIndex].id,
+            },
+            sectionIndex,
+        });
+    });
+
+    // Coarser dates sort first within their period ("2024" before "2024-03-01")
+    const timeline = located
+        .map((entry, order) => ({ ...entry, order }))
+        .sort((a, b) => a.event.start.localeCompare(b.event.start) || a.sectionIndex - b.sectionIndex || a.order - b.order)
+        .map(entry => entry.event);
+    console.log(`DEBUG: Verified ${timeline.length} of ${modelEvents.length} timeline events against the article text.`);
+    return { timeline, warnings };
+}
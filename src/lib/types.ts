@@ -0,0 +1,333 @@
+// src/lib/types.ts
+// Data structures shared between the API routes and the frontend.
+
+export interface FactSection {
+    id: string;
+    title: string;
+    content: string;
+    framing?: SectionFraming; // Only when the optional framing pass ran and labeled this section
+}
+
+export type Sentiment = 'positive' | 'negative' | 'neutral' | 'mixed';
+export type Tone = 'neutral' | 'opinion' | 'advocacy';
+
+// A word or phrase that carries judgement, found in the section content (see framing.ts)
+export interface LoadedPhrase {
+    text: string; // As written in the section
+    reason: string; // Why it is loaded, e.g. "implies guilt"
+    offset: number; // Character offset in the section content
+    length: number;
+}
+
+// How a section reads, from the optional framing pass
+export interface SectionFraming {
+    sentiment: Sentiment;
+    tone: Tone;
+    kind: 'fact' | 'commentary'; // Reported fact, or interpretation and opinion (the writer's or a source's)
+    loadedLanguage: LoadedPhrase[];
+}
+
+// Article-level result of the framing pass
+export interface ArticleFraming {
+    summary: string; // How the article frames the story, in a few sentences
+    sectionsLabeled: number;
+    commentarySections: number;
+    loadedPhraseCount: number;
+}
+
+// A direct quotation, checked against the article text (see quotes.ts)
+export interface Quote {
+    text: string;
+    speaker: string | null; // Null when the article doesn't attribute it, or never names the speaker the model gave
+    role: string | null; // The speaker's role or affiliation, when the article states it
+    sectionId: string; // The FactSection the quote appears in
+}
+
+export type ClaimType = 'numeric' | 'statistic' | 'attribution' | 'causal';
+
+// A checkable factual claim with the source sentence that makes it (see claims.ts)
+export interface Claim {
+    claim: string; // The claim, stated on its own
+    type: ClaimType;
+    sentence: string; // The supporting sentence(s), as written in the article
+    sectionId: string;
+    sourceCited: boolean; // Whether the article says where the claim comes from
+    citedSource: string | null; // Who or what it credits, when named
+}
+
+// A dated event the article describes (see timeline.ts). Dates are ISO calendar dates at the
+// precision the article gives: YYYY, YYYY-MM or YYYY-MM-DD.
+export interface TimelineEvent {
+    start: string;
+    end: string | null; // Inclusive end of a range; null for a single date
+    dateText: string; // The date as the article words it ("last Tuesday", "in 2019")
+    relative: boolean; // Worked out from the publication date
+    description: string;
+    sentence: string; // The supporting sentence(s), as written in the article
+    sectionId: string;
+}
+
+export type EntityType = 'person' | 'organization' | 'place' | 'date';
+
+// A named entity with its mentions counted per fact section (see entities.ts)
+export interface Entity {
+    id: string; // e.g. person-jane-doe
+    name: string; // The fullest form the article uses
+    type: EntityType;
+    aliases: string[]; // Other forms found in the text ("Doe", "Ms. Doe")
+    mentionCount: number;
+    mentions: Array<{ sectionId: string; count: number }>; // In section order; only sections that mention it
+}
+
+// Interface for SPICE score data passed to frontend
+// Structural facts measured from the article's content HTML (see structureFeatures.ts)
+export interface StructureFeatures {
+    listCount: number;
+    listItemCount: number;
+    subheadingCount: number; // h2-h6; the h1 is normally the title
+    paragraphCount: number;
+    shortParagraphRatio: number; // Share of paragraphs with at most 4 sentences (0-1)
+    averageSentencesPerParagraph: number;
+    emphasisCount: number; // Bold/italic phrases outside headings
+    imageCount: number;
+    blockquoteCount: number;
+    internalLinkCount: number;
+    externalLinkCount: number;
+    jumpLinkCount: number; // In-page #anchor links
+    buttonCount: number;
+    embedCount: number; // Forms, inputs, iframes, audio/video
+}
+
+// Readability and text statistics, computed locally from the extracted text (see textMetrics.ts)
+export interface TextMetrics {
+    wordCount: number;
+    sentenceCount: number;
+    paragraphCount: number;
+    averageSentenceWords: number;
+    averageParagraphWords: number;
+    fleschReadingEase: number; // Higher is easier; 60-70 is plain English
+    fleschKincaidGrade: number; // US school grade
+    passiveVoiceRatio: number; // Share of sentences with a passive construction (0-1, approximate)
+    readingTimeMinutes: number;
+    sections: SectionReadingTime[];
+}
+
+export interface SectionReadingTime {
+    sectionId: string;
+    wordCount: number;
+    readingTimeSeconds: number;
+}
+
+export type SpiceDimension = 's' | 'p' | 'i' | 'c' | 'e';
+export type SpiceDimensionName = 'scannability' | 'personalization' | 'interactivity' | 'curation' | 'emotion';
+
+export interface SpiceScoreData {
+    s: number;
+    p: number;
+    i: number;
+    c: number;
+    e: number;
+    total: number;
+    justifications?: Record<SpiceDimensionName, string>;
+    criteriaMet?: Partial<Record<SpiceDimensionName, number[]>>; // 1-based criterion numbers from SPICE_RUBRIC
+    method?: 'model' | 'hybrid'; // hybrid: criteria with a `detect` rule were scored from the article structure
+}
+
+// How the article reached the pipeline: fetched from a URL, or pasted as HTML or plain text
+export type InputMode = 'url' | 'html' | 'text';
+
+// A problem found while validating the model's analysis. `repaired` means a retry fixed the
+// response; `truncated` means it was cut off at the token limit.
+export interface AnalysisWarning {
+    code: 'invalid_field' | 'spice_invalid' | 'repaired' | 'truncated' | 'window_failed' | 'quote_unverified' | 'claims_failed' | 'claim_unverified' | 'comparison_failed' | 'framing_failed' | 'framing_unverified' | 'timeline_failed' | 'timeline_unverified';
+    path: string; // Field path in the analysis JSON, e.g. spiceScore.s (empty for the whole response)
+    message: string;
+}
+
+// How the analysis was produced: one call, or map-reduce over windows of a long article
+export interface AnalysisPasses {
+    mode: 'single' | 'map-reduce';
+    calls: number; // Model calls made, including repair retries
+    windows: number; // 1 in single mode
+    failedWindows: number[]; // 1-based windows whose analysis failed; their sections have generated titles
+}
+
+// --- Publication Metadata (JSON-LD, Microdata and meta tags; see structuredMetadata.ts) ---
+export type MetadataSource = 'json-ld' | 'microdata' | 'meta' | 'readability';
+
+export interface MetadataPerson {
+    name: string;
+    url: string | null;
+}
+
+export interface MetadataOrganization {
+    name: string;
+    url: string | null;
+    logoUrl: string | null;
+}
+
+export interface MetadataImage {
+    url: string;
+    width: number | null;
+    height: number | null;
+    caption: string | null;
+}
+
+export interface PublicationMetadata {
+    headline: string | null;
+    publisher: MetadataOrganization | null;
+    authors: MetadataPerson[];
+    datePublished: string | null; // As published (usually ISO 8601)
+    dateModified: string | null;
+    section: string | null;
+    keywords: string[];
+    images: MetadataImage[];
+    sources: Partial<Record<PublicationField, MetadataSource>>; // Where each field that has a value came from
+}
+
+export type PublicationField = 'headline' | 'publisher' | 'authors' | 'datePublished' | 'dateModified' | 'section' | 'keywords' | 'images';
+
+// An image from the article body, or the primary image (see articleImages.ts)
+export interface ArticleImage {
+    url: string; // What the page loads first (src, or a lazy-loading data-src)
+    bestUrl: string; // Highest-resolution candidate from srcset and <picture> sources; same as url when there are none
+    alt: string | null;
+    caption: string | null;
+    credit: string | null; // Photo credit, split off the caption
+    width: number | null; // Declared width, or the best candidate's `w` descriptor
+    height: number | null;
+}
+
+// How a date was found: from page metadata, an in-page <time> element, a dated URL path, or the model reading the text
+export type DateMethod = 'json-ld' | 'microdata' | 'meta' | 'time-element' | 'url' | 'model';
+
+// A publication or modification date (see publicationDates.ts)
+export interface PublicationDate {
+    iso: string; // YYYY-MM-DD for day precision, otherwise a UTC timestamp
+    raw: string; // The string it was read from
+    method: DateMethod;
+    confidence: number; // 0-1, from the method; lower for a time of day without an offset
+    precision: 'day' | 'time';
+    utcOffset: string | null; // The publisher's offset as written (Z, +02:00); null when none was given
+}
+
+export interface StoryData {
+    id?: string; // Permalink id (see storyStore.ts); missing when the story couldn't be saved
+    title: string;
+    source: string;
+    author?: string | null;
+    date: string; // Display string ('Month Day, Year' or 'Date not specified')
+    publishedAt?: PublicationDate | null;
+    modifiedAt?: PublicationDate | null;
+    summary: string;
+    highlights: string[];
+    factSections: FactSection[];
+    quotes?: Quote[];
+    entities?: Entity[];
+    claims?: Claim[] | null; // Only when claims were requested; null when claim extraction failed
+    timeline?: TimelineEvent[] | null; // In date order; only when the timeline was requested; null when extraction failed
+    framing?: ArticleFraming | null; // Only when the framing pass was requested; null when it failed
+    imageUrl?: string | null;
+    primaryImage?: ArticleImage | null; // imageUrl with its caption and size, when the page describes it
+    images?: ArticleImage[]; // Body images, excluding the primary image
+    originalUrl: string; // Empty for pasted content submitted without a URL
+    inputMode?: InputMode;
+    spiceScore: SpiceScoreData | null;
+    structure?: StructureFeatures | null; // Null for pasted text and the body-text fallback
+    metrics?: TextMetrics;
+    warnings?: AnalysisWarning[]; // Validation problems left after repair; the affected fields hold fallbacks
+    analysisPasses?: AnalysisPasses;
+    publication?: PublicationMetadata | null; // Null for pasted text
+    cached?: boolean; // True when served from the analysis cache rather than a fresh model call
+    cachedAt?: string | null; // ISO timestamp of the cached analysis
+}
+
+// Metadata available as soon as the page has been scraped, before any analysis runs
+export interface ArticleMetadata {
+    title: string;
+    source: string;
+    author: string | null;
+    date: string | null;
+    publishedAt: PublicationDate | null;
+    modifiedAt: PublicationDate | null;
+    imageUrl: string | null;
+    originalUrl: string;
+}
+
+// --- Pipeline Progress Events (streamed to the UI as Server-Sent Events) ---
+export type PipelineStage = 'fetched' | 'metadata' | 'extracted' | 'analyzing' | 'summary' | 'sections' | 'spice' | 'done' | 'error';
+
+export type PipelineEvent =
+    | { type: 'fetched'; url: string | null; origin: 'network' | 'pasted'; status: number | null; contentType: string | null; bytes: number }
+    | { type: 'metadata'; metadata: ArticleMetadata }
+    | { type: 'extracted'; characters: number; sectionCount: number; images: ArticleImage[] }
+    | { type: 'analyzing'; model: string }
+    | { type: 'summary'; text: string; complete: boolean }
+    | { type: 'sections'; factSections: FactSection[] }
+    | { type: 'spice'; spiceScore: SpiceScoreData | null }
+    | { type: 'done'; story: StoryData }
+    | { type: 'error'; error: string; status: number; code?: string };
+
+// --- Batch Analysis (POST /api/process-articles) ---
+export type BatchItemResult =
+    | { url: string; ok: true; story: StoryData }
+    | { url: string; ok: false; error: { message: string; status: number; code?: string } };
+
+export interface BatchResponse {
+    results: BatchItemResult[];
+    succeeded: number;
+    failed: number;
+    durationMs: number;
+}
+
+// --- Article Comparison (POST /api/compare-articles; see compareArticles.ts) ---
+// "left" is the first URL, "right" the second
+
+// A fact from the comparison, with the section of each article that states it
+export interface ComparedFact {
+    fact: string;
+    leftSectionId: string | null; // Null when only the right article has it, or the section wasn't named
+    rightSectionId: string | null;
+}
+
+// How the two articles treat the same aspect of the story differently
+export interface FramingDifference {
+    aspect: string; // e.g. headline emphasis, who is blamed, tone
+    left: string;
+    right: string;
+}
+
+export interface SpiceDelta {
+    dimension: SpiceDimension | 'total';
+    left: number;
+    right: number;
+    delta: number; // right - left
+}
+
+export interface ArticleComparison {
+    sharedFacts: ComparedFact[];
+    leftOnlyFacts: ComparedFact[];
+    rightOnlyFacts: ComparedFact[];
+    quotes: { shared: Array<{ left: Quote; right: Quote }>; leftOnly: Quote[]; rightOnly: Quote[] };
+    sources: { shared: string[]; leftOnly: string[]; rightOnly: string[] }; // Quoted speakers and cited sources
+    spiceDeltas: SpiceDelta[] | null; // Null when either article has no SPICE score
+    framing: FramingDifference[];
+    warnings: AnalysisWarning[]; // comparison_failed when the facts and framing could not be compared
+}
+
+export interface CompareResponse {
+    left: StoryData;
+    right: StoryData;
+    comparison: ArticleComparison;
+}
+
+// --- Export (see exportStory.ts) ---
+export type ExportFormat = 'markdown' | 'html' | 'pdf' | 'json';
+
+// The JSON export: the story with a format name and version, so readers can tell what they have
+export interface StoryExport {
+    format: 'smart-story-agent/story';
+    version: number;
+    exportedAt: string; // ISO timestamp
+    story: StoryData;
+}